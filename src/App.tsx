@@ -38,6 +38,7 @@ function AppContent() {
 		preview,
 		assets,
 		graphPath,
+		uuidSubstitutions,
 		handleExport,
 		quickExport,
 		downloadMarkdown,
@@ -91,6 +92,8 @@ function AppContent() {
 			} else if (result.error === "NO_ACTIVE_PAGE") {
 				showWarning("Please open a page first before exporting");
 				setTimeout(() => window.logseq.hideMainUI(), 2000);
+			} else if (result.error === "EXPORT_EXCLUDED") {
+				showWarning("This page is marked as excluded from export");
 			} else {
 				showError(result.error || "Export failed. Check console for details.");
 			}
@@ -215,7 +218,13 @@ function AppContent() {
 
 							{/* Preview Content */}
 							<div className="flex-1 overflow-auto bg-gray-950/50">
-								<PreviewContent preview={preview} previewMode={previewMode} graphPath={graphPath} />
+								<PreviewContent
+									preview={preview}
+									previewMode={previewMode}
+									graphPath={graphPath}
+									uuidSubstitutions={uuidSubstitutions}
+									frontmatterFormat={settings.frontmatterFormat}
+								/>
 							</div>
 						</>
 					) : (
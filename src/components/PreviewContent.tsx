@@ -1,24 +1,54 @@
 import React from "react";
 import ReactMarkdown from "react-markdown";
 import remarkFrontmatter from "remark-frontmatter";
+import remarkGfm from "remark-gfm";
+import { FRONTMATTER_FENCES, FrontmatterFormat, UuidSubstitution } from "../markdownExporter";
 import { PreviewMode } from "../types";
 
 interface PreviewContentProps {
 	preview: string;
 	previewMode: PreviewMode;
 	graphPath: string;
+	uuidSubstitutions?: UuidSubstitution[];
+	frontmatterFormat?: FrontmatterFormat;
 }
 
+// Lists the plain UUIDs the export replaced, so unexpected rewrites are easy to spot
+const UuidSubstitutions: React.FC<{ substitutions: UuidSubstitution[] }> = ({ substitutions }) => {
+	if (substitutions.length === 0) return null;
+
+	return (
+		<details className="not-prose mb-4 text-xs text-gray-400">
+			<summary className="cursor-pointer select-none">
+				Resolved {substitutions.length} plain UUID{substitutions.length === 1 ? "" : "s"}
+			</summary>
+			<ul className="mt-2 space-y-1">
+				{substitutions.map(({ uuid, kind, replacement }, index) => (
+					<li key={`${uuid}-${index}`} className="truncate">
+						<code className="font-mono text-gray-500">{uuid}</code> → {kind}:{" "}
+						<span className="text-gray-300">{replacement}</span>
+					</li>
+				))}
+			</ul>
+		</details>
+	);
+};
+
 export const PreviewContent: React.FC<PreviewContentProps> = ({
 	preview,
 	previewMode,
 	graphPath,
+	uuidSubstitutions = [],
+	frontmatterFormat = "yaml",
 }) => {
 	if (previewMode === "raw") {
 		return (
-			<pre className="p-4 whitespace-pre-wrap text-xs text-gray-300 font-mono leading-relaxed">
-				{preview}
-			</pre>
+			<div className="p-4">
+				<UuidSubstitutions substitutions={uuidSubstitutions} />
+				<pre className="whitespace-pre-wrap text-xs text-gray-300 font-mono leading-relaxed">
+					{preview}
+				</pre>
+			</div>
 		);
 	}
 
@@ -34,8 +64,18 @@ export const PreviewContent: React.FC<PreviewContentProps> = ({
       prose-img:rounded prose-img:shadow-lg prose-img:border prose-img:border-gray-800
       prose-li:text-sm prose-li:text-gray-300"
 		>
+			<UuidSubstitutions substitutions={uuidSubstitutions} />
 			<ReactMarkdown
-				remarkPlugins={[remarkFrontmatter]}
+				remarkPlugins={[
+					// Recognize the fences of the chosen format so the frontmatter isn't rendered
+					[
+						remarkFrontmatter,
+						frontmatterFormat === "none"
+							? "yaml"
+							: { type: frontmatterFormat, fence: FRONTMATTER_FENCES[frontmatterFormat] },
+					],
+					remarkGfm,
+				]}
 				components={{
 					img: ({ src, alt, ...props }) => {
 						let imageSrc = src;
@@ -10,6 +10,7 @@ type SettingsBarProps = {
 const SETTING_OPTIONS: SettingOption[] = [
 	{ key: "includePageName", label: "Page Header" },
 	{ key: "flattenNested", label: "Flatten" },
+	{ key: "smartOutline", label: "Smart Outline" },
 	{ key: "preserveBlockRefs", label: "References" },
 	{ key: "includeProperties", label: "Frontmatter" },
 	{ key: "debug", label: "Debug" },
@@ -26,7 +27,7 @@ export const SettingsBar = ({ settings, onSettingChange, onAssetPathChange }: Se
 					<label key={key} className="flex items-center gap-1.5 cursor-pointer group">
 						<input
 							type="checkbox"
-							checked={settings[key] as boolean}
+							checked={Boolean(settings[key])}
 							onChange={() => onSettingChange(key)}
 							className="w-3 h-3 text-blue-500 bg-gray-800 border-gray-600 rounded focus:ring-1 focus:ring-blue-500 focus:ring-offset-0"
 						/>
@@ -2,11 +2,14 @@ import { BlockEntity } from "@logseq/libs/dist/LSPlugin";
 import { saveAs } from "file-saver";
 import JSZip from "jszip";
 import { useCallback, useState } from "react";
+import { MarkdownHelpers, PathStrategy } from "../markdownExporter";
 
 export interface BatchExportResult {
 	pageName: string;
 	success: boolean;
 	markdown?: string;
+	// Name of the file in the ZIP; repeated slugs get -2, -3, ...
+	fileName?: string;
 	error?: string;
 }
 
@@ -19,7 +22,7 @@ export const useBatchExport = () => {
 	const [batchProgress, setBatchProgress] = useState(0);
 	const [batchTotal, setBatchTotal] = useState(0);
 
-	const exportPagesToZip = useCallback(async (pageNames: string[]) => {
+	const exportPagesToZip = useCallback(async (pageNames: string[], pathStrategy?: PathStrategy) => {
 		if (!pageNames.length) return null;
 
 		setBatchExporting(true);
@@ -29,6 +32,7 @@ export const useBatchExport = () => {
 		try {
 			const zip = new JSZip();
 			const results: BatchExportResult[] = [];
+			const files: { slug: string; result: BatchExportResult }[] = [];
 
 			for (let i = 0; i < pageNames.length; i++) {
 				const pageName = pageNames[i];
@@ -55,12 +59,18 @@ export const useBatchExport = () => {
 					// Convert blocks to markdown (simplified version without MarkdownExporter)
 					const markdown = convertBlocksToMarkdown(tree as BlockNode[], pageName);
 
-					zip.file(`${pageName}.md`, markdown);
-					results.push({
+					const result: BatchExportResult = {
 						pageName,
 						success: true,
 						markdown,
+					};
+					files.push({
+						slug:
+							MarkdownHelpers.getPageSlug(page, String(page.name || pageName), pathStrategy) ||
+							"untitled",
+						result,
 					});
+					results.push(result);
 				} catch (error) {
 					results.push({
 						pageName,
@@ -72,6 +82,17 @@ export const useBatchExport = () => {
 				setBatchProgress(i + 1);
 			}
 
+			// Number repeated slugs in page name order, so the same pages always get
+			// the same file names whatever order they were selected in
+			files.sort((a, b) =>
+				a.result.pageName < b.result.pageName ? -1 : a.result.pageName > b.result.pageName ? 1 : 0,
+			);
+			const slugs = MarkdownHelpers.uniqueSlugs(files.map((file) => file.slug));
+			files.forEach(({ result }, i) => {
+				result.fileName = `${slugs[i]}.md`;
+				zip.file(result.fileName, result.markdown ?? "");
+			});
+
 			const blob = await zip.generateAsync({ type: "blob" });
 			const timestamp = new Date().toISOString().slice(0, 10);
 			saveAs(blob, `logseq-export-${timestamp}.zip`);
@@ -1,5 +1,5 @@
 import { useCallback, useState } from "react";
-import { exporter } from "../markdownExporter";
+import { exporter, UuidSubstitution } from "../markdownExporter";
 import { Asset, ExportSettings } from "../types";
 
 export const useExport = (settings: ExportSettings) => {
@@ -7,6 +7,7 @@ export const useExport = (settings: ExportSettings) => {
 	const [preview, setPreview] = useState("");
 	const [assets, setAssets] = useState<Asset[]>([]);
 	const [graphPath, setGraphPath] = useState("");
+	const [uuidSubstitutions, setUuidSubstitutions] = useState<UuidSubstitution[]>([]);
 
 	const handleExport = useCallback(async () => {
 		setIsExporting(true);
@@ -25,6 +26,7 @@ export const useExport = (settings: ExportSettings) => {
 
 			setAssets(assetsList);
 			setGraphPath(path);
+			setUuidSubstitutions([...exporter.getUuidSubstitutions()]);
 			return { success: true, markdown };
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : String(error);
@@ -37,13 +39,15 @@ export const useExport = (settings: ExportSettings) => {
 	const quickExport = useCallback(async () => {
 		try {
 			const markdown = await exporter.exportCurrentPage(settings);
-			await exporter.downloadAsZip(markdown, undefined, settings.assetPath);
+			await exporter.downloadAsZip(markdown, undefined, settings.assetPath, settings.pathStrategy);
 			logseq.UI.showMsg("Page exported as ZIP successfully!", "success");
 			window.logseq.hideMainUI();
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : String(error);
 			if (errorMessage === "NO_ACTIVE_PAGE") {
 				logseq.UI.showMsg("⚠️ Please open a page first before exporting", "warning");
+			} else if (errorMessage === "EXPORT_EXCLUDED") {
+				logseq.UI.showMsg("⚠️ This page is marked as excluded from export", "warning");
 			} else {
 				logseq.UI.showMsg("Export failed. Check console for details.", "error");
 			}
@@ -67,7 +71,7 @@ export const useExport = (settings: ExportSettings) => {
 	const downloadAsZip = useCallback(async () => {
 		// Re-export to ensure assets are tracked properly
 		const markdown = await exporter.exportCurrentPage(settings);
-		await exporter.downloadAsZip(markdown, undefined, settings.assetPath);
+		await exporter.downloadAsZip(markdown, undefined, settings.assetPath, settings.pathStrategy);
 	}, [settings]);
 
 	return {
@@ -75,6 +79,7 @@ export const useExport = (settings: ExportSettings) => {
 		preview,
 		assets,
 		graphPath,
+		uuidSubstitutions,
 		handleExport,
 		quickExport,
 		downloadMarkdown,
@@ -105,11 +105,15 @@ function main() {
 		try {
 			const settings = getExportSettings();
 			const markdown = await exporter.exportCurrentPage(settings);
-			await exporter.downloadAsZip(markdown, undefined, settings.assetPath);
+			await exporter.downloadAsZip(markdown, undefined, settings.assetPath, settings.pathStrategy);
 			logseq.UI.showMsg("Page exported as ZIP successfully!", "success");
 		} catch (error) {
 			console.error("Export failed:", error);
-			logseq.UI.showMsg("Export failed. Check console for details.", "error");
+			if (error instanceof Error && error.message === "EXPORT_EXCLUDED") {
+				logseq.UI.showMsg("⚠️ This page is marked as excluded from export", "warning");
+			} else {
+				logseq.UI.showMsg("Export failed. Check console for details.", "error");
+			}
 		}
 	});
 
@@ -120,11 +124,15 @@ function main() {
 		try {
 			const settings = getExportSettings();
 			const markdown = await exporter.exportCurrentPage(settings);
-			await exporter.downloadAsZip(markdown, undefined, settings.assetPath);
+			await exporter.downloadAsZip(markdown, undefined, settings.assetPath, settings.pathStrategy);
 			logseq.UI.showMsg("Page exported as ZIP successfully!", "success");
 		} catch (error) {
 			console.error("Export failed:", error);
-			logseq.UI.showMsg("Export failed. Check console for details.", "error");
+			if (error instanceof Error && error.message === "EXPORT_EXCLUDED") {
+				logseq.UI.showMsg("⚠️ This page is marked as excluded from export", "warning");
+			} else {
+				logseq.UI.showMsg("Export failed. Check console for details.", "error");
+			}
 		}
 	});
 }
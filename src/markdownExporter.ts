@@ -1,17 +1,147 @@
 import { BlockEntity, PageEntity } from "@logseq/libs/dist/LSPlugin";
 import { saveAs } from "file-saver";
 import JSZip from "jszip";
+import type { ListItem, Paragraph, PhrasingContent, Root, RootContent, TableRow } from "mdast";
+import remarkGfm from "remark-gfm";
+import remarkStringify from "remark-stringify";
+import { unified } from "unified";
 
 // Core types
+export const TASK_MARKER_MODES = ["strip", "gfm", "emoji", "keep"] as const;
+export type TaskMarkerMode = (typeof TASK_MARKER_MODES)[number];
+
+export const TASK_METADATA_MODES = ["strip", "badges"] as const;
+export type TaskMetadataMode = (typeof TASK_METADATA_MODES)[number];
+
+export const LINK_MODES = ["plain", "relative", "wikilink", "template"] as const;
+export type LinkMode = (typeof LINK_MODES)[number];
+
+export const BLOCK_REF_MODES = ["inline", "footnote", "anchor"] as const;
+export type BlockRefMode = (typeof BLOCK_REF_MODES)[number];
+
+export const QUERY_RESULT_MODES = ["strip", "list", "table"] as const;
+export type QueryResultMode = (typeof QUERY_RESULT_MODES)[number];
+
+// Syntax admonition blocks (#+BEGIN_NOTE, DB callouts) are converted to; "keep"
+// leaves them as they are
+export const CALLOUT_FORMATS = ["keep", "github", "docusaurus", "obsidian", "hugo"] as const;
+export type CalloutFormat = (typeof CALLOUT_FORMATS)[number];
+
+export const CALLOUT_TYPES = ["note", "tip", "important", "warning", "caution"] as const;
+export type CalloutType = (typeof CALLOUT_TYPES)[number];
+
+// Logseq-only inline syntax: ==highlight== / ^^highlight^^, [[url][label]] links,
+// [:span] hiccup and {{cloze}}. Each is converted to HTML, plain markdown, or kept.
+export const INLINE_CONSTRUCTS = ["highlight", "orgLink", "hiccup", "cloze"] as const;
+export type InlineConstruct = (typeof INLINE_CONSTRUCTS)[number];
+
+export const INLINE_STRATEGIES = ["html", "markdown", "keep"] as const;
+export type InlineStrategy = (typeof INLINE_STRATEGIES)[number];
+
+export type InlineFormatting = Partial<Record<InlineConstruct, InlineStrategy>>;
+
+export const DEFAULT_INLINE_FORMATTING: Record<InlineConstruct, InlineStrategy> = {
+	highlight: "html",
+	orgLink: "markdown",
+	hiccup: "markdown",
+	cloze: "markdown",
+};
+
+export const FRONTMATTER_FORMATS = ["yaml", "toml", "json", "none"] as const;
+export type FrontmatterFormat = (typeof FRONTMATTER_FORMATS)[number];
+
+// "namespace" writes docs/guides/setup to docs/guides/setup.md in ZIPs, with a
+// nested slug and parent/breadcrumbs frontmatter; "flat" keeps one file name
+export const PATH_STRATEGIES = ["flat", "namespace"] as const;
+export type PathStrategy = (typeof PATH_STRATEGIES)[number];
+
+// Keeping a page's aliases reachable: "html" adds a meta-refresh page per alias
+// to the ZIP, "jekyll" lists them under redirect_from (jekyll-redirect-from)
+export const ALIAS_REDIRECT_MODES = ["none", "html", "jekyll"] as const;
+export type AliasRedirectMode = (typeof ALIAS_REDIRECT_MODES)[number];
+
+// Fences around each frontmatter format: YAML and TOML as Hugo reads them, JSON
+// as Eleventy does
+export const FRONTMATTER_FENCES: Record<
+	Exclude<FrontmatterFormat, "none">,
+	{ open: string; close: string }
+> = {
+	yaml: { open: "---", close: "---" },
+	toml: { open: "+++", close: "+++" },
+	json: { open: "---json", close: "---" },
+};
+
+// Reshapes the collected frontmatter before it is written. Applied in order:
+// rename (property -> frontmatter key), drop, defaults (for missing keys),
+// static (always set) and order (listed keys first, the rest after)
+export type FrontmatterMapping = {
+	rename?: Record<string, string>;
+	drop?: string[];
+	defaults?: Record<string, unknown>;
+	static?: Record<string, unknown>;
+	order?: string[];
+};
+
+// A {{query}} macro ("simple" DSL) or the :query of a #+BEGIN_QUERY block
+export type QuerySource = { type: "simple" | "datalog"; query: string };
+
+// How a block is rendered in the smart outline
+export type OutlineFormat = "list" | "paragraph";
+
+// Page or block transcluded by an {{embed}} macro
+export type EmbedTarget = { type: "page" | "block"; target: string };
+
+// Priority, SCHEDULED and DEADLINE of a task block, as display strings
+export type TaskMetadata = {
+	priority?: string;
+	scheduled?: string;
+	deadline?: string;
+};
+
 export type ExportOptions = {
 	includeTags?: boolean;
 	includeProperties?: boolean;
 	preserveBlockRefs?: boolean;
 	flattenNested?: boolean;
+	// Headings stay headings and other blocks become paragraphs or lists by context;
+	// takes precedence over flattenNested
+	smartOutline?: boolean;
 	removeLogseqSyntax?: boolean;
 	resolvePlainUuids?: boolean;
 	includePageName?: boolean;
 	assetPath?: string;
+	taskMarkers?: TaskMarkerMode;
+	taskMetadata?: TaskMetadataMode;
+	taskMetadataFrontmatter?: boolean;
+	linkMode?: LinkMode;
+	// URL for "template" links; {slug} and {name} are replaced with the target page's
+	linkTemplate?: string;
+	blockRefMode?: BlockRefMode;
+	// How many levels of {{embed}} inside embeds to transclude; 0 drops embeds
+	maxEmbedDepth?: number;
+	queryResults?: QueryResultMode;
+	calloutFormat?: CalloutFormat;
+	// Strategy per construct; constructs left out use DEFAULT_INLINE_FORMATTING
+	inlineFormatting?: InlineFormatting;
+	// Blocks tagged with this (e.g. #private) are left out, like blogseq-exclude:: true
+	excludeTag?: string;
+	// Property names never written to the frontmatter
+	redactProperties?: string[];
+	// "none" leaves the frontmatter out even when includeProperties is on
+	frontmatterFormat?: FrontmatterFormat;
+	frontmatterMapping?: FrontmatterMapping;
+	// Derive date (journal day or created-at) and lastmod (newest updated-at)
+	deriveDates?: boolean;
+	// IANA zone such as "Europe/Berlin"; "" uses the system zone
+	dateTimezone?: string;
+	// Tokens: YYYY, MM, DD, HH, mm, ss and Z (UTC offset)
+	dateFormat?: string;
+	pathStrategy?: PathStrategy;
+	// How many directories deep the exported file sits; relative page links climb out of them
+	pageDepth?: number;
+	// Slug properties of linked pages, by lowercase page name; filled in by the exporter
+	pageSlugs?: Record<string, string>;
+	aliasRedirects?: AliasRedirectMode;
 	debug?: boolean;
 };
 
@@ -20,13 +150,73 @@ export const DEFAULT_OPTIONS: Required<ExportOptions> = {
 	includeProperties: false,
 	preserveBlockRefs: true,
 	flattenNested: true,
+	smartOutline: false,
 	removeLogseqSyntax: true,
 	resolvePlainUuids: true,
 	includePageName: true,
 	assetPath: "assets/",
+	taskMarkers: "strip",
+	taskMetadata: "strip",
+	taskMetadataFrontmatter: false,
+	linkMode: "plain",
+	linkTemplate: "/{slug}/",
+	blockRefMode: "inline",
+	maxEmbedDepth: 3,
+	queryResults: "strip",
+	calloutFormat: "github",
+	inlineFormatting: DEFAULT_INLINE_FORMATTING,
+	excludeTag: "private",
+	redactProperties: [],
+	frontmatterFormat: "yaml",
+	frontmatterMapping: {},
+	deriveDates: false,
+	dateTimezone: "",
+	dateFormat: "YYYY-MM-DD",
+	pathStrategy: "flat",
+	pageDepth: 0,
+	pageSlugs: {},
+	aliasRedirects: "none",
 	debug: false,
 };
 
+// A DB-version property's :logseq.property/type and cardinality
+export type PropertySchema = {
+	type: string;
+	many: boolean;
+};
+
+// Calendar fields of an instant in some time zone; offset is minutes east of UTC
+export type DateParts = {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+	offset: number;
+};
+
+// A date the exporter typed as one (a derived date or a date property), which
+// frontmatter writes unquoted; other date-shaped strings stay strings
+export class FrontmatterDate {
+	constructor(readonly text: string) {}
+
+	toString(): string {
+		return this.text;
+	}
+
+	toJSON(): string {
+		return this.text;
+	}
+}
+
+// A plain UUID in the text that was replaced by the entity it identifies
+export type UuidSubstitution = {
+	uuid: string;
+	kind: "page" | "block" | "asset";
+	replacement: string;
+};
+
 export type AssetInfo = {
 	uuid: string;
 	title: string;
@@ -54,6 +244,8 @@ export type LogseqAPI = {
 	getPageBlocksTree: (pageUuid: string) => Promise<BlockEntity[]>;
 	getCurrentGraph: () => Promise<{ path: string } | null>;
 	datascriptQuery: (query: string) => Promise<unknown[][]>;
+	// Runs a simple query, e.g. "(and [[project]] (task TODO))"
+	q: (query: string) => Promise<unknown[] | null>;
 	showMsg: (message: string, type: "success" | "error" | "warning") => void;
 };
 
@@ -71,11 +263,125 @@ export type DOMHelpers = {
 	removeChild: (element: HTMLElement) => void;
 };
 
+/**
+ * A span of block content as seen by the syntax cleaner. Only "text" tokens
+ * contain Logseq syntax; every other token is passed through verbatim.
+ */
+export type ContentToken = {
+	type:
+		| "text"
+		| "fencedCode"
+		| "mathBlock"
+		| "inlineCode"
+		| "inlineMath"
+		| "macro"
+		| "autolink"
+		| "linkDestination"
+		| "url";
+	value: string;
+};
+
+/**
+ * State handed to a block renderer. `content` has already had references
+ * resolved, Logseq syntax cleaned and asset links rewritten.
+ */
+export type BlockRenderContext = {
+	content: string;
+	options: ExportOptions;
+	// Task marker (e.g. "TODO", "DONE") taken off the content, unless the mode is "strip"
+	task: string | null;
+	renderChildren: (depth: number) => Promise<RootContent[]>;
+};
+
+/**
+ * Custom handling for a class of blocks. Renderers are tried from highest to
+ * lowest priority; the first one whose `matches` returns true claims the block
+ * and is responsible for rendering its children via `context.renderChildren`.
+ */
+export type BlockRenderer = {
+	name: string;
+	priority: number;
+	matches: (block: BlockEntity, depth: number, context: BlockRenderContext) => boolean;
+	render: (
+		block: BlockEntity,
+		depth: number,
+		context: BlockRenderContext,
+	) => Promise<RootContent[]>;
+};
+
 // Helper utilities
 export class MarkdownHelpers {
 	private static readonly UUID_REGEX =
 		/^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i;
 	private static readonly PROPERTY_REGEX = /^[a-zA-Z][a-zA-Z0-9-_]*::\s*.+$/;
+	private static readonly TASK_MARKER_REGEX =
+		/^(TODO|DOING|NOW|LATER|DONE|WAITING|CANCELED|CANCELLED)\s+/;
+	private static readonly TASK_EMOJI: Record<string, string> = {
+		TODO: "⬜",
+		LATER: "⬜",
+		BACKLOG: "⬜",
+		DOING: "⏳",
+		NOW: "⏳",
+		"IN-REVIEW": "👀",
+		WAITING: "⏸️",
+		DONE: "✅",
+		CANCELED: "❌",
+		CANCELLED: "❌",
+	};
+	// Letters that don't decompose into a base letter plus accents, and Cyrillic
+	private static readonly TRANSLITERATIONS: Record<string, string> = {
+		ß: "ss",
+		æ: "ae",
+		œ: "oe",
+		ø: "o",
+		đ: "d",
+		ð: "d",
+		ł: "l",
+		þ: "th",
+		ı: "i",
+		а: "a",
+		б: "b",
+		в: "v",
+		г: "g",
+		ґ: "g",
+		д: "d",
+		е: "e",
+		ё: "e",
+		є: "ye",
+		ж: "zh",
+		з: "z",
+		и: "i",
+		і: "i",
+		ї: "yi",
+		й: "y",
+		к: "k",
+		л: "l",
+		м: "m",
+		н: "n",
+		о: "o",
+		п: "p",
+		р: "r",
+		с: "s",
+		т: "t",
+		у: "u",
+		ф: "f",
+		х: "kh",
+		ц: "ts",
+		ч: "ch",
+		ш: "sh",
+		щ: "shch",
+		ъ: "",
+		ы: "y",
+		ь: "",
+		э: "e",
+		ю: "yu",
+		я: "ya",
+	};
+	private static readonly FENCE_OPEN_REGEX = /^\s{0,3}(`{3,}|~{3,})/;
+	// Alternatives, in order: inline code, inline math ($$x$$ or $x$), {{macro}},
+	// <autolink>, ](link destination) other than a ]([[Page]]) page link, bare URL
+	private static readonly INLINE_TOKEN_REGEX =
+		/(`+)[^\n]*?[^`\n]\1(?!`)|(\$\$[^\n]+?\$\$|\$(?=\S)[^$\n]*?\S\$(?!\d))|(\{\{(?:[^{}]|\{[^{}]*\})*\}\})|(<[a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*>)|(\]\((?!\[\[)(?:[^()\s]|\([^()\s]*\))*(?:\s+"[^"]*")?\))|\b(?:https?|ftp|file):\/\/[^\s<>]*[^\s<>.,;:!?'")\]]/;
 	private static readonly IMAGE_TYPES = new Set([
 		"png",
 		"jpg",
@@ -85,6 +391,45 @@ export class MarkdownHelpers {
 		"webp",
 		"bmp",
 	]);
+	// Local dates and RFC 3339 date-times, which TOML writes without quotes
+	private static readonly TOML_DATE_REGEX =
+		/^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})?)?$/;
+	private static readonly DATE_TOKEN_REGEX = /YYYY|MM|DD|HH|mm|ss|Z/g;
+	private static readonly YAML_UNPRINTABLE_REGEX = /[\u0000-\u0008\u000b-\u001f\u007f\u2028\u2029]/;
+	// YAML 1.1 timestamps, which some parsers read as dates
+	private static readonly YAML_TIMESTAMP_REGEX =
+		/^\d{4}-\d{1,2}-\d{1,2}(?:(?:[Tt]|[ \t]+)\d{1,2}:\d{2}:\d{2}(?:\.\d*)?(?:[ \t]*Z|[-+]\d{1,2}(?::\d{2})?)?)?$/;
+	// Strings matching any of these can't be written as plain YAML scalars
+	private static readonly YAML_PLAIN_UNSAFE = [
+		/^$/,
+		/^\s|\s$/,
+		/[\n\t\r]/,
+		MarkdownHelpers.YAML_UNPRINTABLE_REGEX,
+		// Indicators that start flow collections, anchors, tags, block scalars, etc.
+		/^[-?:,[\]{}#&*!|>'"%@`]/,
+		/: |:$| #/,
+		// Null, booleans (including YAML 1.1 yes/no/on/off), numbers and special floats
+		/^(?:~|null|true|false|yes|no|on|off|y|n)$/i,
+		/^[-+]?(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:e[-+]?\d+)?$/i,
+		/^[-+]?(?:0x[\da-f_]+|0o[0-7_]+|0b[01_]+)$/i,
+		/^[-+]?\.(?:inf|nan)$/i,
+		// YAML 1.1 sexagesimal numbers such as 1:30
+		/^[-+]?\d[\d_]*(?::[0-5]?\d)+(?:\.[\d_]*)?$/,
+		MarkdownHelpers.YAML_TIMESTAMP_REGEX,
+		/^<<$/,
+	];
+	// Markdown for the hiccup tags that have an equivalent; others become plain text
+	private static readonly HICCUP_MARKDOWN: Record<string, string> = {
+		b: "**",
+		strong: "**",
+		i: "_",
+		em: "_",
+		s: "~~",
+		del: "~~",
+		code: "`",
+	};
+	// Markdown for the org *bold*, /italic/ and +strike+ markers
+	private static readonly ORG_EMPHASIS: Record<string, string> = { "*": "**", "/": "_", "+": "~~" };
 
 	static extractUuid(value?: string | { $uuid: string }): string | undefined {
 		if (!value) return undefined;
@@ -102,20 +447,720 @@ export class MarkdownHelpers {
 			.every((line) => !line.trim() || this.PROPERTY_REGEX.test(line.trim()));
 	}
 
+	/**
+	 * Splits block content into tokens so Logseq syntax can be cleaned without
+	 * touching code, math, macros, URLs or link destinations. Fenced code and
+	 * $$ math blocks are found line by line first; the lines in between are then
+	 * scanned for inline constructs. Text tokens always hold whole lines, apart
+	 * from where an inline token interrupts them.
+	 */
+	static tokenize(content: string): ContentToken[] {
+		const tokens: ContentToken[] = [];
+		const lines = content.split("\n");
+		let text: string[] = [];
+
+		const flushText = () => {
+			if (text.length === 0) return;
+			tokens.push(...this.tokenizeInline(text.join("\n")));
+			text = [];
+		};
+
+		for (let i = 0; i < lines.length; i++) {
+			const trimmed = lines[i].trim();
+			const fence = lines[i].match(this.FENCE_OPEN_REGEX);
+			// $$ math that opens and closes on one line is left to the inline scan
+			const isMathBlock =
+				trimmed.startsWith("$$") && !(trimmed.length > 2 && trimmed.endsWith("$$"));
+			if (!fence && !isMathBlock) {
+				text.push(lines[i]);
+				continue;
+			}
+
+			// Find the closing line; an unclosed block runs to the end of the content
+			let end = lines.length - 1;
+			for (let j = i + 1; j < lines.length; j++) {
+				const closes = fence
+					? lines[j].trim().startsWith(fence[1]) && /^[`~]+$/.test(lines[j].trim())
+					: lines[j].trim().endsWith("$$");
+				if (closes) {
+					end = j;
+					break;
+				}
+			}
+
+			// Keep the newline separating the block from the text before it in the text token
+			if (text.length > 0) text.push("");
+			flushText();
+			const value = lines.slice(i, end + 1).join("\n") + (end < lines.length - 1 ? "\n" : "");
+			tokens.push({ type: fence ? "fencedCode" : "mathBlock", value });
+			i = end;
+		}
+
+		flushText();
+		return tokens;
+	}
+
+	/**
+	 * Replaces #+BEGIN_X ... #+END_X blocks for the given names, found line by line
+	 * outside fenced code, with replace(name, body). The body may hold inline code,
+	 * URLs or fenced code of its own. An empty replacement removes the lines;
+	 * unclosed blocks are left as they are.
+	 */
+	static replaceOrgBlocks(
+		content: string,
+		names: readonly string[],
+		replace: (name: string, body: string) => string,
+	): string {
+		const lines = content.split("\n");
+		const output: string[] = [];
+		const closesFence = (line: string, fence: string) =>
+			line.trim().startsWith(fence) && /^[`~]+$/.test(line.trim());
+		let fence: string | null = null;
+
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i];
+			if (fence) {
+				if (closesFence(line, fence)) fence = null;
+				output.push(line);
+				continue;
+			}
+
+			const open = line.match(this.FENCE_OPEN_REGEX);
+			const begin = line.match(/^[ \t]*#\+BEGIN_(\w+)[ \t]*$/i);
+			const name = begin?.[1].toUpperCase();
+			if (open || !name || !names.includes(name)) {
+				if (open) fence = open[1];
+				output.push(line);
+				continue;
+			}
+
+			// Find the matching END line, ignoring any inside fenced code in the body
+			let end = -1;
+			let innerFence: string | null = null;
+			for (let j = i + 1; j < lines.length && end === -1; j++) {
+				if (innerFence) {
+					if (closesFence(lines[j], innerFence)) innerFence = null;
+				} else if (lines[j].match(this.FENCE_OPEN_REGEX)) {
+					innerFence = lines[j].match(this.FENCE_OPEN_REGEX)?.[1] ?? null;
+				} else if (new RegExp(`^[ \\t]*#\\+END_${name}[ \\t]*$`, "i").test(lines[j])) {
+					end = j;
+				}
+			}
+			if (end === -1) {
+				output.push(line);
+				continue;
+			}
+
+			const replacement = replace(name, lines.slice(i + 1, end).join("\n"));
+			if (replacement !== "") output.push(replacement);
+			i = end;
+		}
+
+		return output.join("\n");
+	}
+
+	private static tokenizeInline(text: string): ContentToken[] {
+		const tokens: ContentToken[] = [];
+		const regex = new RegExp(this.INLINE_TOKEN_REGEX.source, "g");
+		let last = 0;
+		let match: RegExpExecArray | null;
+
+		while ((match = regex.exec(text)) !== null) {
+			if (match.index > last) tokens.push({ type: "text", value: text.slice(last, match.index) });
+
+			const [value, inlineCode, inlineMath, macro, autolink, linkDestination] = match;
+			const type: ContentToken["type"] = inlineCode
+				? "inlineCode"
+				: inlineMath
+					? "inlineMath"
+					: macro
+						? "macro"
+						: autolink
+							? "autolink"
+							: linkDestination
+								? "linkDestination"
+								: "url";
+			tokens.push({ type, value });
+			last = match.index + value.length;
+		}
+
+		if (last < text.length) tokens.push({ type: "text", value: text.slice(last) });
+		return tokens;
+	}
+
+	/** Targets of the {{embed [[page]]}} and {{embed ((uuid))}} macros in the content, in order. */
+	static extractEmbeds(content: string): EmbedTarget[] {
+		return this.tokenize(content).flatMap<EmbedTarget>((token) => {
+			if (token.type !== "macro") return [];
+			const match = token.value.match(
+				/^\{\{embed\s+(?:\[\[([^\]]+)\]\]|\(\(([a-f0-9-]{36})\)\))\s*\}\}$/i,
+			);
+			if (!match) return [];
+			return match[1]
+				? [{ type: "page", target: match[1].trim() }]
+				: [{ type: "block", target: match[2] }];
+		});
+	}
+
+	/** The content without its {{embed}} macros, which are rendered apart from the text. */
+	static removeEmbeds(content: string): string {
+		return this.tokenize(content)
+			.map((token) =>
+				token.type === "macro" && /^\{\{embed\b/.test(token.value) ? "" : token.value,
+			)
+			.join("");
+	}
+
+	/**
+	 * Finds the {{query}} macros and #+BEGIN_QUERY blocks in the content, skipping
+	 * code and math. Returns the content with the query blocks taken out; the
+	 * macros are left for cleanLogseqSyntax to remove.
+	 */
+	static extractQueries(content: string): { queries: QuerySource[]; content: string } {
+		const queries: QuerySource[] = [];
+
+		// Query blocks are found by line first, as their EDN can hold strings and
+		// brackets that the inline tokenizer would split up. Each is swapped for a
+		// marker so the queries keep their order with the macros
+		const blocks: (QuerySource | null)[] = [];
+		const marked = this.replaceOrgBlocks(content, ["QUERY"], (_, edn) => {
+			blocks.push(this.parseAdvancedQuery(edn));
+			return `\u0000${blocks.length - 1}\u0000`;
+		});
+
+		for (const token of this.tokenize(marked)) {
+			if (token.type === "macro") {
+				const match = token.value.match(/^\{\{query\s+([\s\S]+)\}\}$/);
+				if (match) queries.push({ type: "simple", query: match[1].trim() });
+			} else if (token.type === "text") {
+				for (const [, index] of token.value.matchAll(/\u0000(\d+)\u0000/g)) {
+					const query = blocks[Number(index)];
+					if (query) queries.push(query);
+				}
+			}
+		}
+
+		return { queries, content: marked.replace(/\u0000\d+\u0000\n?/g, "").trim() };
+	}
+
+	/**
+	 * Reads the :query of an advanced query map. A vector is DataScript; a list or
+	 * string is the simple query language.
+	 */
+	static parseAdvancedQuery(edn: string): QuerySource | null {
+		const start = edn.search(/:query\s*[[("]/);
+		if (start === -1) return null;
+
+		const open = edn.slice(start + 6).search(/\S/) + start + 6;
+		const first = edn[open];
+		if (first === '"') {
+			const match = edn.slice(open).match(/^"((?:[^"\\]|\\.)*)"/);
+			return match ? { type: "simple", query: match[1].replace(/\\"/g, '"') } : null;
+		}
+
+		// Find the matching bracket, ignoring brackets inside strings
+		let depth = 0;
+		let inString = false;
+		for (let i = open; i < edn.length; i++) {
+			const char = edn[i];
+			if (inString) {
+				if (char === "\\") i++;
+				else if (char === '"') inString = false;
+			} else if (char === '"') {
+				inString = true;
+			} else if (char === "[" || char === "(" || char === "{") {
+				depth++;
+			} else if ((char === "]" || char === ")" || char === "}") && --depth === 0) {
+				return {
+					type: first === "[" ? "datalog" : "simple",
+					query: edn.slice(open, i + 1),
+				};
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Title and properties of a pulled query result. DataScript results use
+	 * namespaced keys ("block/content"), the simple query API plain ones ("content").
+	 */
+	static describeQueryResult(entity: Record<string, unknown>): {
+		isPage: boolean;
+		title: string;
+		properties: Record<string, unknown>;
+	} {
+		const field = (...keys: string[]) => {
+			for (const key of keys) {
+				const value = entity[key] ?? entity[`:${key}`];
+				if (typeof value === "string" && value) return value;
+			}
+			return null;
+		};
+
+		const pageName = field(
+			"block/original-name",
+			"original-name",
+			"originalName",
+			"block/name",
+			"name",
+		);
+		const content = field("block/content", "content", "block/title", "title");
+		const properties = entity.properties ?? entity["block/properties"];
+
+		return {
+			isPage: pageName !== null && content === null,
+			title: content ?? pageName ?? "",
+			properties:
+				properties && typeof properties === "object" ? (properties as Record<string, unknown>) : {},
+		};
+	}
+
+	/**
+	 * Freezes query results as a list of links/blocks or as a GFM table with a
+	 * column per property.
+	 */
+	static renderQueryResults(
+		results: Record<string, unknown>[],
+		mode: Exclude<QueryResultMode, "strip">,
+		options: ExportOptions,
+	): RootContent {
+		if (results.length === 0) {
+			return {
+				type: "paragraph",
+				children: [
+					{
+						type: "emphasis",
+						children: [{ type: "text", value: "No results found for the query." }],
+					},
+				],
+			};
+		}
+
+		const rows = results.map((entity) => {
+			const { isPage, title, properties } = this.describeQueryResult(entity);
+			const label = isPage
+				? this.formatPageLink(title, options)
+				: this.cleanLogseqSyntax(title, { ...options, linkMode: "plain" }).replace(
+						/\s*\n\s*/g,
+						" ",
+					);
+			return { isPage, title, label, properties };
+		});
+
+		if (mode === "list") {
+			return {
+				type: "list",
+				ordered: false,
+				spread: false,
+				children: rows.map(({ label }) => ({
+					type: "listItem",
+					spread: false,
+					children: [this.rawParagraph(label)],
+				})),
+			};
+		}
+
+		const columns = Array.from(
+			new Set(rows.flatMap(({ properties }) => Object.keys(properties))),
+		).filter((key) => !["id", "collapsed"].includes(key));
+		const cell = (value: unknown): TableRow["children"][number] => ({
+			type: "tableCell",
+			children: [
+				{ type: "text", value: Array.isArray(value) ? value.join(", ") : String(value ?? "") },
+			],
+		});
+
+		return {
+			type: "table",
+			align: [],
+			children: [
+				{
+					type: "tableRow",
+					children: [rows.every((row) => row.isPage) ? "Page" : "Block", ...columns].map(cell),
+				},
+				...rows.map(
+					(row): TableRow => ({
+						type: "tableRow",
+						children: [
+							{ type: "tableCell", children: [this.queryResultLabel(row, options)] },
+							...columns.map((column) => cell(row.properties[column])),
+						],
+					}),
+				),
+			],
+		};
+	}
+
+	// A table cell's label as mdast, so that remark escapes the | in titles
+	private static queryResultLabel(
+		row: { isPage: boolean; title: string; label: string },
+		options: ExportOptions,
+	): PhrasingContent {
+		if (!row.isPage) return { type: "text", value: row.label };
+		if (options.linkMode === "wikilink") {
+			return { type: "html", value: row.label.replace(/\|/g, "\\|") };
+		}
+		const url = this.pageLinkUrl(row.title, options);
+		const text: PhrasingContent = { type: "text", value: row.title };
+		return url === null ? text : { type: "link", url, children: [text] };
+	}
+
+	/**
+	 * Converts the content of an org-format block to markdown: SRC/EXAMPLE/QUOTE
+	 * blocks, headings, links and emphasis. Property and logbook drawers are
+	 * dropped; other #+BEGIN blocks are left for the callout and query handling.
+	 */
+	static orgToMarkdown(content: string): string {
+		const lines: string[] = [];
+		let block: { end: string; quote: boolean } | null = null;
+		let inDrawer = false;
+
+		for (const line of content.split("\n")) {
+			const trimmed = line.trim();
+
+			if (block) {
+				if (trimmed.toUpperCase() === block.end) {
+					if (!block.quote) lines.push("```");
+					block = null;
+				} else if (block.quote) {
+					lines.push(trimmed ? `> ${this.convertOrgLinks(trimmed)}` : ">");
+				} else {
+					lines.push(line);
+				}
+				continue;
+			}
+
+			if (inDrawer) {
+				inDrawer = !/^:END:$/i.test(trimmed);
+				continue;
+			}
+			if (/^:(PROPERTIES|LOGBOOK):$/i.test(trimmed)) {
+				inDrawer = true;
+				continue;
+			}
+
+			const begin = trimmed.match(/^#\+BEGIN_(SRC|EXAMPLE|QUOTE)\b[ \t]*(\S*)/i);
+			if (begin) {
+				const kind = begin[1].toUpperCase();
+				block = { end: `#+END_${kind}`, quote: kind === "QUOTE" };
+				if (!block.quote) lines.push(`\`\`\`${kind === "SRC" ? begin[2] : ""}`);
+				continue;
+			}
+
+			const heading = line.match(/^(\*{1,6})\s+(.*)$/);
+			lines.push(
+				heading
+					? `${"#".repeat(heading[1].length)} ${this.convertOrgLinks(heading[2])}`
+					: this.convertOrgLinks(line),
+			);
+		}
+		// An unclosed SRC or EXAMPLE block runs to the end of the content
+		if (block && !block.quote) lines.push("```");
+
+		return this.tokenize(lines.join("\n"))
+			.map((token) => (token.type === "text" ? this.convertOrgEmphasis(token.value) : token.value))
+			.join("");
+	}
+
+	/**
+	 * [[url][label]] becomes a markdown link and [[file:image.png]] an image.
+	 * Page links keep their [[Page]] form so they go through formatPageLink.
+	 */
+	private static convertOrgLinks(line: string): string {
+		return line.replace(
+			/\[\[([^\]\n]+)\](?:\[([^\]\n]+)\])?\]/g,
+			(match, target: string, label?: string) => {
+				const isUrl = /^[a-z][a-z0-9+.-]*:\/\//i.test(target);
+				const isFile = /^(file:|\.{0,2}\/)/.test(target);
+				if (!isUrl && !isFile) return label ? `[${label}]([[${target}]])` : match;
+
+				const url = target.replace(/^file:/, "");
+				const extension = url.split(".").pop() ?? "";
+				if (label) return `[${label}](${url})`;
+				if (this.isImageAsset(extension)) return `![](${url})`;
+				return isUrl ? `<${url}>` : `[${url}](${url})`;
+			},
+		);
+	}
+
+	/** Org *bold*, /italic/, +strike+, ~code~ and =verbatim= to markdown. */
+	private static convertOrgEmphasis(text: string): string {
+		return text.replace(
+			/(^|[\s([{'"-])([*/+~=])(\S|\S[^\n]*?\S)\2(?=$|[\s.,;:!?'")\]}-])/gm,
+			(_, before: string, marker: string, body: string) => {
+				if (marker === "~" || marker === "=") return `${before}\`${body}\``;
+				const emphasis = this.ORG_EMPHASIS[marker];
+				return `${before}${emphasis}${this.convertOrgEmphasis(body)}${emphasis}`;
+			},
+		);
+	}
+
+	/**
+	 * Rewrites the Logseq-only inline constructs most static site renderers don't
+	 * support, using the strategy set for each (see INLINE_CONSTRUCTS). Code and
+	 * math are left untouched.
+	 */
+	static normalizeInlineFormatting(content: string, formatting: InlineFormatting = {}): string {
+		const strategies = { ...DEFAULT_INLINE_FORMATTING, ...formatting };
+		const parts: string[] = [];
+		let prose = "";
+
+		// URLs and link destinations are joined back into the surrounding text, as
+		// [[url][label]] links are split up by the tokenizer
+		for (const token of this.tokenize(content)) {
+			if (["text", "url", "autolink", "linkDestination"].includes(token.type)) {
+				prose += token.value;
+				continue;
+			}
+			parts.push(
+				this.normalizeProse(prose, strategies),
+				this.normalizeCloze(token, strategies.cloze),
+			);
+			prose = "";
+		}
+		parts.push(this.normalizeProse(prose, strategies));
+
+		return parts.join("");
+	}
+
+	private static normalizeProse(
+		text: string,
+		strategies: Record<InlineConstruct, InlineStrategy>,
+	): string {
+		let result = text;
+
+		if (strategies.orgLink !== "keep") {
+			result = result.replace(
+				/\[\[([^\]\n]+)\]\[([^\]\n]+)\]\]/g,
+				(_, target: string, label: string) => {
+					// Page targets become [label]([[Page]]) links, which follow the link mode
+					if (!/^([a-z][a-z0-9+.-]*:|\.{0,2}\/)/i.test(target)) return `[${label}]([[${target}]])`;
+					return strategies.orgLink === "html"
+						? `<a href="${target}">${label}</a>`
+						: `[${label}](${target})`;
+				},
+			);
+		}
+
+		if (strategies.hiccup !== "keep") {
+			result = result.replace(
+				/\[:([a-zA-Z][\w-]*)(?:\s+\{([^{}]*)\})?((?:\s+"(?:[^"\\\n]|\\.)*")*)\s*\]/g,
+				(_, tag: string, attributes = "", children: string) => {
+					const text = [...children.matchAll(/"((?:[^"\\]|\\.)*)"/g)]
+						.map(([, child]) => child.replace(/\\(.)/g, "$1"))
+						.join("");
+					if (strategies.hiccup === "html") {
+						const attrs = [...attributes.matchAll(/:([\w-]+)\s+"([^"]*)"/g)]
+							.map(([, key, value]) => ` ${key}="${value}"`)
+							.join("");
+						return `<${tag}${attrs}>${text}</${tag}>`;
+					}
+					const marker = this.HICCUP_MARKDOWN[tag.toLowerCase()] ?? "";
+					return text ? `${marker}${text}${marker}` : "";
+				},
+			);
+		}
+
+		if (strategies.highlight !== "keep") {
+			result = result.replace(/(==|\^\^)(\S|\S[^\n]*?\S)\1/g, (_, _marker, text: string) =>
+				strategies.highlight === "html" ? `<mark>${text}</mark>` : `**${text}**`,
+			);
+		}
+
+		return result;
+	}
+
+	private static normalizeCloze(token: ContentToken, strategy: InlineStrategy): string {
+		const match = token.type === "macro" && token.value.match(/^\{\{cloze\s+([\s\S]*?)\s*\}\}$/);
+		if (!match || strategy === "keep") return token.value;
+		return strategy === "html" ? `<mark>${match[1]}</mark>` : `**${match[1]}**`;
+	}
+
 	static cleanLogseqSyntax(content: string, options: ExportOptions): string {
-		let result = content
-			.replace(/^[a-zA-Z-_]+::\s*.+$/gm, "")
-			.replace(/\{\{(query|renderer|embed)[^}]*\}\}/g, "")
-			.replace(/^(TODO|DOING|NOW|LATER|DONE|WAITING|CANCELLED)\s+/gm, "")
-			.replace(/\b(NOW)\s+/g, "")
+		const cleaned = this.tokenize(content).map((token) => {
+			if (token.type === "macro") {
+				return /^\{\{(query|renderer|embed)\b/.test(token.value) ? "" : token.value;
+			}
+			if (token.type !== "text") return token.value;
+			return this.cleanText(token.value, options);
+		});
+
+		return cleaned.join("").trim();
+	}
+
+	private static cleanText(text: string, options: ExportOptions): string {
+		let result = text.replace(/^[a-zA-Z-_.]+::\s*.+$/gm, "");
+
+		if ((options.taskMarkers ?? "strip") === "strip") {
+			result = result
+				.replace(/^(TODO|DOING|NOW|LATER|DONE|WAITING|CANCELED|CANCELLED)\s+/gm, "")
+				.replace(/\b(NOW)\s+/g, "");
+		}
+
+		result = result
 			.replace(/\[#[A-Z]\]\s*/g, "")
-			.replace(/\[\[+([^\]]+)\]\]+/g, "$1");
+			.replace(/\[([^\]\n]+)\]\(\[\[([^\]]+)\]\]\)/g, (_, label: string, page: string) =>
+				this.formatPageLink(page, options, label),
+			)
+			// #[[Tag]] is a tag, not a link; it is handled with the other tags below
+			.replace(/\[\[+([^\]]+)\]\]+/g, (_, page: string, offset: number, text: string) =>
+				text[offset - 1] === "#" ? page : this.formatPageLink(page, options),
+			);
 
 		if (!options.includeTags) {
 			result = result.replace(/#[^\s#[\]{}(),.!?;:'"]+/g, "");
 		}
 
-		return result.replace(/\n{3,}/g, "\n\n").trim();
+		return result.replace(/\n{3,}/g, "\n\n");
+	}
+
+	/**
+	 * Lowercase, hyphenated slug. Accented Latin and Cyrillic are transliterated;
+	 * other scripts (CJK, Arabic, ...) are kept as Unicode letters.
+	 */
+	static slugify(name: string): string {
+		return (
+			Array.from(name.toLowerCase(), (char) => this.TRANSLITERATIONS[char] ?? char)
+				.join("")
+				.normalize("NFKD")
+				// Only drop accents from Latin letters; kana voicing marks are recomposed below
+				.replace(/(\p{Script=Latin})\p{M}+/gu, "$1")
+				.normalize("NFC")
+				.replace(/[\s_/]+/g, "-")
+				.replace(/[^\p{L}\p{N}\p{M}-]/gu, "")
+				.replace(/-{2,}/g, "-")
+				.replace(/^-|-$/g, "")
+		);
+	}
+
+	/** Slugifies each namespace segment: "Docs/Getting Started" -> "docs/getting-started". */
+	static slugifyPath(name: string): string {
+		return this.namespaceSegments(name)
+			.map((segment) => this.slugify(segment))
+			.filter(Boolean)
+			.join("/");
+	}
+
+	/** Slug of a page name for a path strategy, as used in its file path and links. */
+	static pageSlug(name: string, strategy: PathStrategy = "flat"): string {
+		return strategy === "namespace" ? this.slugifyPath(name) : this.slugify(name);
+	}
+
+	static namespaceSegments(name: string): string[] {
+		return name
+			.split("/")
+			.map((segment) => segment.trim())
+			.filter(Boolean);
+	}
+
+	/** Full names of a namespace page's ancestors, outermost first: a/b/c -> [a, a/b]. */
+	static namespaceAncestors(name: string): string[] {
+		const segments = this.namespaceSegments(name);
+		return segments.slice(1).map((_, i) => segments.slice(0, i + 1).join("/"));
+	}
+
+	/** Path of a page's markdown file (without .md) for a path strategy: its slug. */
+	static getPagePath(
+		page: BlockEntity | PageEntity,
+		name: string,
+		strategy: PathStrategy = "flat",
+	): string {
+		return this.getPageSlug(page, name, strategy) || "untitled";
+	}
+
+	/** Points a relative asset path up from a file nested `depth` directories deep. */
+	static relativeAssetPath(assetPath: string, depth: number): string {
+		if (depth <= 0 || /^([a-z][a-z0-9+.-]*:|\/)/i.test(assetPath)) return assetPath;
+		return `${"../".repeat(depth)}${assetPath.replace(/^\.\//, "")}`;
+	}
+
+	/**
+	 * Makes slugs unique by suffixing repeats with -2, -3, ... in order, never
+	 * taking a slug that appears elsewhere in the list. Case-insensitive.
+	 */
+	static uniqueSlugs(slugs: string[]): string[] {
+		const taken = new Set(slugs.map((slug) => slug.toLowerCase()));
+		const used = new Set<string>();
+
+		return slugs.map((slug) => {
+			let unique = slug;
+			let n = 1;
+			while (used.has(unique.toLowerCase()) || (n > 1 && taken.has(unique.toLowerCase()))) {
+				unique = `${slug}-${++n}`;
+			}
+			used.add(unique.toLowerCase());
+			return unique;
+		});
+	}
+
+	/** A page's slug:: property if it has one, otherwise its slugified name. */
+	static getPageSlug(
+		page: BlockEntity | PageEntity,
+		name: string,
+		strategy: PathStrategy = "flat",
+	): string {
+		return this.slugProperty(page) ?? this.pageSlug(name, strategy);
+	}
+
+	/** The file-graph slug:: or DB-version slug property of a page, if set. */
+	static slugProperty(page: BlockEntity | PageEntity | Record<string, unknown>): string | null {
+		const entity = page as Record<string, unknown>;
+		const slugKey = Object.keys(entity).find((key) => /^:user\.property\/slug(?:-|$)/.test(key));
+		const override =
+			(entity.properties as Record<string, unknown> | undefined)?.slug ??
+			(slugKey ? entity[slugKey] : undefined);
+
+		return typeof override === "string" && override.trim() ? override.trim() : null;
+	}
+
+	/** Renders a reference to a page according to `options.linkMode`. */
+	static formatPageLink(page: string, options: ExportOptions, label = page): string {
+		if (options.linkMode === "wikilink") {
+			return label === page ? `[[${page}]]` : `[[${page}|${label}]]`;
+		}
+		const url = this.pageLinkUrl(page, options);
+		return url === null ? label : `[${label}](${url})`;
+	}
+
+	/** Destination of a link to a page in the relative and template link modes, otherwise null. */
+	static pageLinkUrl(page: string, options: ExportOptions): string | null {
+		switch (options.linkMode ?? "plain") {
+			case "relative":
+				return `${"../".repeat(options.pageDepth ?? 0)}${this.linkedPageSlug(page, options)}.md`;
+			case "template":
+				return this.pageUrl(page, this.linkedPageSlug(page, options), options.linkTemplate);
+			default:
+				return null;
+		}
+	}
+
+	private static linkedPageSlug(page: string, options: ExportOptions): string {
+		return options.pageSlugs?.[page.toLowerCase()] ?? this.pageSlug(page, options.pathStrategy);
+	}
+
+	/** Fills in a link template's {slug} and {name} placeholders for a page. */
+	static pageUrl(page: string, slug: string, template = DEFAULT_OPTIONS.linkTemplate): string {
+		return template.replace(/\{slug\}/g, slug).replace(/\{name\}/g, encodeURIComponent(page));
+	}
+
+	/** An HTML page that sends visitors (and search engines, via canonical) to url. */
+	static redirectStub(url: string): string {
+		const href = url.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+		return [
+			"<!DOCTYPE html>",
+			'<html lang="en">',
+			"<head>",
+			'<meta charset="utf-8">',
+			"<title>Redirecting…</title>",
+			`<link rel="canonical" href="${href}">`,
+			`<meta http-equiv="refresh" content="0; url=${href}">`,
+			"</head>",
+			"<body>",
+			`<p>This page has moved to <a href="${href}">${href}</a>.</p>`,
+			"</body>",
+			"</html>",
+			"",
+		].join("\n");
 	}
 
 	static processAssetPaths(content: string, assetPath: string): string {
@@ -123,6 +1168,10 @@ export class MarkdownHelpers {
 		return content.replace(/(!)?\[([^\]]*)\]\(\.\.\/assets\/([^)]+)\)/g, `$1[$2](${path}$3)`);
 	}
 
+	/**
+	 * @deprecated Exports are now serialized from an mdast tree (see `toMarkdown`),
+	 * which produces correct spacing without rewriting the output text.
+	 */
 	static postProcessMarkdown(markdown: string): string {
 		return markdown
 			.replace(/\n{3,}/g, "\n\n")
@@ -133,107 +1182,642 @@ export class MarkdownHelpers {
 			.trim();
 	}
 
-	static getHeadingLevel(block: BlockEntity): number | null {
-		// Check multiple possible property locations
-		let level = (block as Record<string, unknown>)["logseq.property/heading"];
-
-		// Also check in properties object if it exists
-		if (!level && (block as Record<string, unknown>).properties) {
-			level = ((block as Record<string, unknown>).properties as Record<string, unknown>)[
-				"logseq.property/heading"
-			];
-		}
+	/**
+	 * Wraps already-rendered block content in a paragraph. The content is markdown
+	 * (links, emphasis, images), so it is carried as a raw node that the serializer
+	 * emits verbatim instead of escaping it as text.
+	 */
+	static rawParagraph(content: string): Paragraph {
+		return { type: "paragraph", children: [{ type: "html", value: content }] };
+	}
 
-		// Also check with colon prefix (DataScript format)
-		if (!level) {
-			level = (block as Record<string, unknown>)[":logseq.property/heading"];
+	/**
+	 * Collects consecutive list items into list nodes. Adjacent lists are merged,
+	 * since two lists back to back would otherwise serialize as one.
+	 */
+	static groupListItems(nodes: RootContent[]): RootContent[] {
+		const grouped: RootContent[] = [];
+
+		for (const node of nodes) {
+			const last = grouped[grouped.length - 1];
+			if (node.type === "listItem") {
+				if (last?.type === "list" && !last.ordered) {
+					last.children.push(node);
+				} else {
+					grouped.push({ type: "list", ordered: false, spread: false, children: [node] });
+				}
+			} else if (node.type === "list" && last?.type === "list" && last.ordered === node.ordered) {
+				last.children.push(...node.children);
+			} else {
+				grouped.push(node);
+			}
 		}
 
-		return typeof level === "number" && level >= 1 && level <= 6 ? level : null;
+		return grouped;
 	}
 
-	static isQuoteBlock(block: BlockEntity): boolean {
-		// Check multiple possible property locations (same pattern as getHeadingLevel)
+	static toMarkdown(tree: Root): string {
+		return unified()
+			.use(remarkGfm)
+			.use(remarkStringify, {
+				bullet: "-",
+				emphasis: "_",
+				fences: true,
+				listItemIndent: "one",
+				rule: "-",
+			})
+			.stringify(tree)
+			.trim();
+	}
 
-		// 1. Root level property (most common in DB version)
-		let displayType = (block as Record<string, unknown>)["logseq.property.node/display-type"];
+	/**
+	 * Reads a DB-version block property, checking the locations it can appear in:
+	 * 1. Root level (most common in DB version)
+	 * 2. The properties object
+	 * 3. Colon-prefixed root key (DataScript format)
+	 */
+	static getBlockProperty(block: BlockEntity, key: string): unknown {
+		const entity = block as Record<string, unknown>;
+		let value = entity[key];
 
-		// 2. Properties object
-		if (!displayType && (block as Record<string, unknown>).properties) {
-			displayType = ((block as Record<string, unknown>).properties as Record<string, unknown>)[
-				"logseq.property.node/display-type"
-			];
+		if (!value && entity.properties) {
+			value = (entity.properties as Record<string, unknown>)[key];
 		}
 
-		// 3. Colon-prefixed format
-		if (!displayType) {
-			displayType = (block as Record<string, unknown>)[":logseq.property.node/display-type"];
+		if (!value) {
+			value = entity[`:${key}`];
 		}
 
+		return value;
+	}
+
+	static getHeadingLevel(block: BlockEntity): number | null {
+		const level = this.getBlockProperty(block, "logseq.property/heading");
+		return typeof level === "number" && level >= 1 && level <= 6 ? level : null;
+	}
+
+	static isQuoteBlock(block: BlockEntity): boolean {
+		const displayType = this.getBlockProperty(block, "logseq.property.node/display-type");
 		// Handle both :quote and "quote" formats
 		return displayType === ":quote" || displayType === "quote";
 	}
 
-	static isCodeBlock(block: BlockEntity): boolean {
-		// Check multiple possible property locations (same pattern as isQuoteBlock)
+	/** Admonition type of a DB-version callout block (display type :note, :tip, ...). */
+	static getCalloutType(block: BlockEntity): CalloutType | null {
+		const displayType = this.getBlockProperty(block, "logseq.property.node/display-type");
+		if (typeof displayType !== "string") return null;
+		const type = displayType.replace(/^:/, "").toLowerCase();
+		return (CALLOUT_TYPES as readonly string[]).includes(type) ? (type as CalloutType) : null;
+	}
 
-		// 1. Root level property (most common in DB version)
-		let displayType = (block as Record<string, unknown>)["logseq.property.node/display-type"];
+	/**
+	 * Converts `#+BEGIN_NOTE` ... `#+END_NOTE` (and TIP, IMPORTANT, WARNING,
+	 * CAUTION) blocks in the content to the given callout syntax, skipping code.
+	 */
+	static convertCallouts(content: string, format: CalloutFormat): string {
+		if (format === "keep") return content;
 
-		// 2. Properties object
-		if (!displayType && (block as Record<string, unknown>).properties) {
-			displayType = ((block as Record<string, unknown>).properties as Record<string, unknown>)[
-				"logseq.property.node/display-type"
-			];
-		}
+		return this.replaceOrgBlocks(
+			content,
+			CALLOUT_TYPES.map((type) => type.toUpperCase()),
+			(type, body) => this.formatCallout(type.toLowerCase() as CalloutType, body, format),
+		);
+	}
+
+	/** Renders an admonition body as a GitHub alert, ::: container, Obsidian callout or Hugo shortcode. */
+	static formatCallout(type: CalloutType, body: string, format: CalloutFormat): string {
+		const text = body.trim();
+		const quote = (label: string) =>
+			[`> [!${label}]`, ...(text ? text.split("\n") : [])]
+				.map((line, i) => (i === 0 ? line : line.trim() ? `> ${line}` : ">"))
+				.join("\n");
 
-		// 3. Colon-prefixed format
-		if (!displayType) {
-			displayType = (block as Record<string, unknown>)[":logseq.property.node/display-type"];
+		switch (format) {
+			case "github":
+				return quote(type.toUpperCase());
+			case "obsidian":
+				return quote(type);
+			case "docusaurus": {
+				// Docusaurus and VitePress have no "important" or "caution" containers
+				const container = type === "important" ? "info" : type === "caution" ? "danger" : type;
+				return `:::${container}\n${text}\n:::`;
+			}
+			case "hugo":
+				return `{{< callout type="${type}" >}}\n${text}\n{{< /callout >}}`;
+			default:
+				return `#+BEGIN_${type.toUpperCase()}\n${text}\n#+END_${type.toUpperCase()}`;
 		}
+	}
+
+	/**
+	 * Whether a block or page is kept out of exports: `blogseq-exclude:: true`, a
+	 * DB-version blogseq-exclude checkbox, or the exclude tag (`#private`,
+	 * `#[[private]]` or `tags:: private`).
+	 */
+	static isExcluded(entity: BlockEntity | PageEntity, excludeTag?: string): boolean {
+		const block = entity as BlockEntity;
+		const flag =
+			this.getBlockProperty(block, "blogseq-exclude") ??
+			this.getBlockProperty(block, "blogseqExclude") ??
+			Object.entries(entity).find(([key]) => /^:?user\.property\/blogseq-exclude\b/.test(key))?.[1];
+		if (flag === true || flag === "true") return true;
+
+		const tag = excludeTag?.replace(/^#/, "").trim().toLowerCase();
+		if (!tag) return false;
+
+		const tags = this.getBlockProperty(block, "tags");
+		if (Array.isArray(tags) && tags.some((t) => String(t).toLowerCase() === tag)) return true;
+
+		const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		const tagPattern = new RegExp(
+			`(^|\\s)#(?:\\[\\[${escaped}\\]\\]|${escaped}(?=$|[\\s.,;:!?)]))|^tags::.*\\b${escaped}\\b`,
+			"im",
+		);
+		return this.tokenize(typeof block.content === "string" ? block.content : "").some(
+			(token) => token.type === "text" && tagPattern.test(token.value),
+		);
+	}
+
+	/** Per-block `blogseq-format:: list|paragraph` override for the smart outline. */
+	static getOutlineFormat(block: BlockEntity): OutlineFormat | null {
+		const format =
+			this.getBlockProperty(block, "blogseq-format") ??
+			this.getBlockProperty(block, "blogseqFormat");
+		return format === "list" || format === "paragraph" ? format : null;
+	}
+
+	/** Numbered list blocks: `logseq.order-list-type:: number` in file graphs. */
+	static isOrderedListBlock(block: BlockEntity): boolean {
+		const listType =
+			this.getBlockProperty(block, "logseq.property/order-list-type") ??
+			this.getBlockProperty(block, "logseq.order-list-type") ??
+			this.getBlockProperty(block, "logseq.orderListType");
+		return listType === ":number" || listType === "number";
+	}
 
+	static isCodeBlock(block: BlockEntity): boolean {
+		const displayType = this.getBlockProperty(block, "logseq.property.node/display-type");
 		// Handle both :code and "code" formats
 		return displayType === ":code" || displayType === "code";
 	}
 
 	static getCodeLanguage(block: BlockEntity): string | null {
-		// Check multiple possible property locations for code language
+		const lang = this.getBlockProperty(block, "logseq.property.code/lang");
+		return typeof lang === "string" && lang.length > 0 ? lang : null;
+	}
 
-		// 1. Root level property
-		let lang = (block as Record<string, unknown>)["logseq.property.code/lang"];
+	/**
+	 * Splits a file-graph task marker ("TODO", "DONE", ...) off the start of the content.
+	 */
+	static parseTaskMarker(content: string): { marker: string; content: string } | null {
+		const match = content.match(this.TASK_MARKER_REGEX);
+		if (!match) return null;
+		return { marker: match[1], content: content.slice(match[0].length) };
+	}
 
-		// 2. Properties object
-		if (!lang && (block as Record<string, unknown>).properties) {
-			lang = ((block as Record<string, unknown>).properties as Record<string, unknown>)[
-				"logseq.property.code/lang"
-			];
+	/**
+	 * Reads the DB-version `logseq.property/status` of a block as a marker keyword,
+	 * e.g. ":logseq.property/status.in-review" -> "IN-REVIEW". Numeric entity ids
+	 * cannot be resolved here and return null.
+	 */
+	static getTaskStatus(block: BlockEntity): string | null {
+		const status = this.getBlockProperty(block, "logseq.property/status");
+		return this.statusToMarker(status);
+	}
+
+	static statusToMarker(status: unknown): string | null {
+		const name = this.getClosedValueName(status);
+		return name ? name.replace(/\s+/g, "-").toUpperCase() : null;
+	}
+
+	/**
+	 * Name of a DB-version closed property value (status, priority), taken from
+	 * its ident (":logseq.property/priority.high" -> "high") or its title.
+	 */
+	static getClosedValueName(value: unknown): string | null {
+		if (value && typeof value === "object") {
+			const entity = value as Record<string, unknown>;
+			return this.getClosedValueName(
+				entity["db/ident"] ??
+					entity[":db/ident"] ??
+					entity.ident ??
+					entity["block/title"] ??
+					entity.title ??
+					entity.name,
+			);
 		}
 
-		// 3. Colon-prefixed format
-		if (!lang) {
-			lang = (block as Record<string, unknown>)[":logseq.property.code/lang"];
+		if (typeof value !== "string" || !value.trim()) return null;
+
+		const ident = value.trim().match(/^:?logseq\.property\/[\w-]+\.([\w-]+)$/);
+		return ident ? ident[1] : value.trim();
+	}
+
+	/**
+	 * Takes the priority (`[#A]`) and SCHEDULED/DEADLINE lines out of file-graph
+	 * content. Code, math and other non-text tokens are left alone.
+	 */
+	static extractTaskMetadata(content: string): { metadata: TaskMetadata; content: string } {
+		const metadata: TaskMetadata = {};
+
+		const cleaned = this.tokenize(content).map((token) => {
+			if (token.type !== "text") return token.value;
+			return token.value
+				.replace(/\[#([A-Z])\]\s*/g, (_, priority: string) => {
+					metadata.priority ??= priority;
+					return "";
+				})
+				.replace(
+					/^[ \t]*(SCHEDULED|DEADLINE):[ \t]*<([^>\n]+)>[ \t]*(?:\n|$)/gm,
+					(_, kind: string, timestamp: string) => {
+						const date = timestamp.match(/\d{4}-\d{2}-\d{2}/)?.[0];
+						const time = timestamp.match(/\b\d{1,2}:\d{2}\b/)?.[0];
+						if (date) {
+							const key = kind === "SCHEDULED" ? "scheduled" : "deadline";
+							metadata[key] ??= time ? `${date} ${time}` : date;
+						}
+						return "";
+					},
+				);
+		});
+
+		return { metadata, content: cleaned.join("").trim() };
+	}
+
+	/** Formats a DB-version datetime (epoch milliseconds) as "YYYY-MM-DD[ HH:mm]". */
+	static formatTimestamp(ms: number): string {
+		const date = new Date(ms);
+		const pad = (n: number) => String(n).padStart(2, "0");
+		const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+		const hasTime = date.getHours() !== 0 || date.getMinutes() !== 0;
+		return hasTime ? `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}` : day;
+	}
+
+	/**
+	 * Renders task metadata inline: the priority in front of the first line and
+	 * ⏳ scheduled / 📅 deadline dates after it.
+	 */
+	static formatTaskBadges(content: string, metadata: TaskMetadata): string {
+		const prefix = metadata.priority ? `**Priority ${metadata.priority}** ` : "";
+		const badges = [
+			metadata.scheduled && `⏳ ${metadata.scheduled}`,
+			metadata.deadline && `📅 ${metadata.deadline}`,
+		].filter(Boolean);
+		const suffix = badges.length > 0 ? ` ${badges.join(" ")}` : "";
+
+		const [first, ...rest] = content.split("\n");
+		return [`${prefix}${first}${suffix}`.trim(), ...rest].join("\n");
+	}
+
+	/** Whether a GFM checkbox is ticked: done and cancelled tasks; WAITING is still open. */
+	static isTaskDone(marker: string): boolean {
+		return marker === "DONE" || this.isTaskCancelled(marker);
+	}
+
+	static isTaskCancelled(marker: string): boolean {
+		return marker === "CANCELED" || marker === "CANCELLED";
+	}
+
+	/** Strikes through the first line, which holds the task's title. */
+	static strikeThrough(content: string): string {
+		const [first, ...rest] = content.split("\n");
+		return first.trim() ? [`~~${first}~~`, ...rest].join("\n") : content;
+	}
+
+	static getTaskEmoji(marker: string): string {
+		return this.TASK_EMOJI[marker] ?? "⬜";
+	}
+
+	/** Converts a journal day such as 20240115 to an ISO date, or null if it isn't one. */
+	static journalDayToIso(day: unknown): string | null {
+		const match = /^(\d{4})(\d{2})(\d{2})$/.exec(String(day));
+		return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+	}
+
+	/** Whether Intl knows the IANA time zone, e.g. "Europe/Berlin". */
+	static isTimeZone(value: string): boolean {
+		try {
+			new Intl.DateTimeFormat("en-US", { timeZone: value });
+			return true;
+		} catch {
+			return false;
 		}
+	}
 
-		return typeof lang === "string" && lang.length > 0 ? lang : null;
+	/** Splits an epoch-milliseconds instant into calendar fields in a time zone ("" for local). */
+	static zonedDateParts(instant: number, timeZone = ""): DateParts {
+		const formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone: timeZone || undefined,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+			hour: "2-digit",
+			minute: "2-digit",
+			second: "2-digit",
+		});
+		const fields = Object.fromEntries(
+			formatter.formatToParts(new Date(instant)).map((part) => [part.type, Number(part.value)]),
+		);
+		const { year, month, day, hour, minute, second } = fields;
+		const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+		const offset = Math.round((wallClock - Math.floor(instant / 1000) * 1000) / 60000);
+		return { year, month, day, hour, minute, second, offset };
 	}
 
-	static formatYaml(data: Record<string, unknown>): string {
-		const lines = ["---"];
+	/** Midnight of a journal day (e.g. 20240115) in a time zone, or null if it isn't one. */
+	static journalDateParts(journalDay: unknown, timeZone = ""): DateParts | null {
+		const iso = this.journalDayToIso(journalDay);
+		if (!iso) return null;
 
+		const [year, month, day] = iso.split("-").map(Number);
+		// The zone's offset around midday avoids landing on the wrong side of a DST change
+		const { offset } = this.zonedDateParts(Date.UTC(year, month - 1, day, 12), timeZone);
+		return { year, month, day, hour: 0, minute: 0, second: 0, offset };
+	}
+
+	/** Writes date parts using YYYY, MM, DD, HH, mm, ss and Z (Z, or an offset like +02:00). */
+	static formatDateParts(parts: DateParts, format: string): string {
+		const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+		const offset = Math.abs(parts.offset);
+		const tokens: Record<string, string> = {
+			YYYY: pad(parts.year, 4),
+			MM: pad(parts.month),
+			DD: pad(parts.day),
+			HH: pad(parts.hour),
+			mm: pad(parts.minute),
+			ss: pad(parts.second),
+			Z:
+				parts.offset === 0
+					? "Z"
+					: `${parts.offset < 0 ? "-" : "+"}${pad(Math.floor(offset / 60))}:${pad(offset % 60)}`,
+		};
+		return format.replace(this.DATE_TOKEN_REGEX, (token) => tokens[token]);
+	}
+
+	/** Coerces a resolved property value to the JS type its property schema declares. */
+	static coercePropertyValue(value: unknown, type: string): unknown {
+		if (Array.isArray(value)) return value.map((item) => this.coercePropertyValue(item, type));
+
+		switch (type) {
+			case "number": {
+				if (typeof value !== "string" || !value.trim()) return value;
+				const parsed = Number(value);
+				return Number.isFinite(parsed) ? parsed : value;
+			}
+			case "checkbox":
+				if (typeof value === "string") {
+					if (/^true$/i.test(value.trim())) return true;
+					if (/^false$/i.test(value.trim())) return false;
+				}
+				return value;
+			case "date":
+				return typeof value === "string" && this.TOML_DATE_REGEX.test(value)
+					? new FrontmatterDate(value)
+					: value;
+			case "datetime":
+				// Datetimes are stored as epoch milliseconds
+				return typeof value === "number" && Number.isFinite(value)
+					? new FrontmatterDate(new Date(value).toISOString())
+					: value;
+			default:
+				return value;
+		}
+	}
+
+	/**
+	 * Applies a FrontmatterMapping to collected frontmatter. Property names are
+	 * matched case-insensitively; the result is a new object.
+	 */
+	static applyFrontmatterMapping(
+		data: Record<string, unknown>,
+		mapping: FrontmatterMapping,
+	): Record<string, unknown> {
+		const lower = (keys: string[] = []) => new Set(keys.map((key) => key.toLowerCase()));
+		const renames = new Map(
+			Object.entries(mapping.rename ?? {}).map(([from, to]) => [from.toLowerCase(), to]),
+		);
+		const dropped = lower(mapping.drop);
+
+		let result: Record<string, unknown> = {};
 		for (const [key, value] of Object.entries(data)) {
-			if (Array.isArray(value)) {
-				lines.push(`${key}:`);
-				value.forEach((item) => lines.push(`  - ${item}`));
-			} else if (typeof value === "string" && value.includes("\n")) {
-				lines.push(`${key}: |`);
-				value.split("\n").forEach((line) => lines.push(`  ${line}`));
-			} else {
-				lines.push(`${key}: ${value}`);
+			const mapped = renames.get(key.toLowerCase()) ?? key;
+			// A renamed property takes the place of one already called that
+			if (mapped in result && !renames.has(key.toLowerCase())) continue;
+			result[mapped] = value;
+		}
+
+		for (const key of Object.keys(result)) {
+			if (dropped.has(key.toLowerCase())) delete result[key];
+		}
+		for (const [key, value] of Object.entries(mapping.defaults ?? {})) {
+			if (result[key] === undefined) result[key] = value;
+		}
+		Object.assign(result, mapping.static);
+
+		if (mapping.order?.length) {
+			const ordered = mapping.order.filter((key) => key in result);
+			const rest = Object.keys(result).filter((key) => !ordered.includes(key));
+			result = Object.fromEntries([...ordered, ...rest].map((key) => [key, result[key]]));
+		}
+
+		return result;
+	}
+
+	/** Serializes frontmatter in the given format, with its fences; "none" gives "". */
+	static formatFrontmatter(data: Record<string, unknown>, format: FrontmatterFormat): string {
+		switch (format) {
+			case "toml":
+				return this.formatToml(data);
+			case "json": {
+				const { open, close } = FRONTMATTER_FENCES.json;
+				return `${open}\n${JSON.stringify(data, null, 2)}\n${close}\n`;
+			}
+			case "none":
+				return "";
+			default:
+				return this.formatYaml(data);
+		}
+	}
+
+	/**
+	 * Serializes frontmatter as a TOML document between `+++` fences. FrontmatterDate
+	 * values (2024-01-15, RFC 3339 date-times) are written as TOML dates, maps as
+	 * tables and arrays of maps as arrays of tables; other strings are quoted. TOML has no null, so null values are
+	 * left out.
+	 */
+	static formatToml(data: Record<string, unknown>): string {
+		const lines = this.tomlTable(data, []);
+		if (lines[0] === "") lines.shift();
+		const { open, close } = FRONTMATTER_FENCES.toml;
+		return [open, ...lines, close].join("\n") + "\n";
+	}
+
+	private static tomlTable(data: Record<string, unknown>, path: string[]): string[] {
+		const entries = Object.entries(data).filter(([, v]) => v !== undefined && v !== null);
+		const isTableArray = (value: unknown) =>
+			Array.isArray(value) &&
+			value.length > 0 &&
+			value.every((item) => this.isFrontmatterMap(item));
+
+		// Key/value pairs have to come before any table header, or they'd belong to that table
+		const lines = entries
+			.filter(([, value]) => !this.isFrontmatterMap(value) && !isTableArray(value))
+			.map(([key, value]) => `${this.tomlKey(key)} = ${this.tomlValue(value)}`);
+
+		for (const [key, value] of entries) {
+			const header = [...path, this.tomlKey(key)];
+			if (isTableArray(value)) {
+				for (const item of value as Record<string, unknown>[]) {
+					lines.push("", `[[${header.join(".")}]]`, ...this.tomlTable(item, header));
+				}
+			} else if (this.isFrontmatterMap(value)) {
+				lines.push("", `[${header.join(".")}]`, ...this.tomlTable(value, header));
 			}
 		}
 
-		lines.push("---");
-		return lines.join("\n") + "\n";
+		return lines;
+	}
+
+	private static tomlKey(key: string): string {
+		return /^[A-Za-z0-9_-]+$/.test(key) ? key : this.tomlString(key);
+	}
+
+	private static tomlString(value: string): string {
+		// JSON string escapes are valid TOML, apart from DEL which TOML requires escaped
+		return JSON.stringify(value).replace(/\u007f/g, "\\u007F");
+	}
+
+	private static tomlValue(value: unknown): string {
+		if (value instanceof Date) return value.toISOString();
+		if (value instanceof FrontmatterDate && this.TOML_DATE_REGEX.test(value.text)) {
+			return value.text;
+		}
+		if (Array.isArray(value)) {
+			const items = value.filter((item) => item !== undefined && item !== null);
+			return `[${items.map((item) => this.tomlValue(item)).join(", ")}]`;
+		}
+		if (this.isFrontmatterMap(value)) {
+			const pairs = Object.entries(value)
+				.filter(([, v]) => v !== undefined && v !== null)
+				.map(([key, v]) => `${this.tomlKey(key)} = ${this.tomlValue(v)}`);
+			return pairs.length > 0 ? `{ ${pairs.join(", ")} }` : "{}";
+		}
+		if (typeof value === "number") {
+			if (Number.isNaN(value)) return "nan";
+			if (!Number.isFinite(value)) return value > 0 ? "inf" : "-inf";
+			const text = String(value);
+			// Integers too big to be exact are written as floats
+			return Number.isSafeInteger(value) || /[.e]/.test(text) ? text : `${text}.0`;
+		}
+		if (typeof value === "boolean" || typeof value === "bigint") return String(value);
+
+		return this.tomlString(String(value));
+	}
+
+	/**
+	 * Serializes frontmatter as a YAML document between `---` fences. Strings are
+	 * quoted whenever a YAML 1.1 or 1.2 parser would read them as something else
+	 * (numbers, booleans like `yes`, `key: value`, comments, flow or anchor
+	 * syntax, dates); multi-line strings become literal blocks. Nested maps and
+	 * arrays, including arrays of maps, are written in block style.
+	 *
+	 * FrontmatterDate values are written bare so YAML 1.1 parsers and site
+	 * generators read them as timestamps.
+	 */
+	static formatYaml(data: Record<string, unknown>): string {
+		const lines = Object.entries(data)
+			.filter(([, value]) => value !== undefined)
+			.flatMap(([key, value]) => this.yamlNode(`${this.yamlScalar(key)}:`, value, ""));
+		return ["---", ...lines, "---"].join("\n") + "\n";
+	}
+
+	/** Lines for a value following `prefix` (a key or a sequence dash) at `indent`. */
+	private static yamlNode(prefix: string, value: unknown, indent: string): string[] {
+		const child = `${indent}  `;
+
+		if (Array.isArray(value)) {
+			if (value.length === 0) return [`${prefix} []`];
+			return [prefix, ...value.flatMap((item) => this.yamlSequenceItem(item, child))];
+		}
+
+		if (this.isFrontmatterMap(value)) {
+			const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+			if (entries.length === 0) return [`${prefix} {}`];
+			return [
+				prefix,
+				...entries.flatMap(([key, v]) =>
+					this.yamlNode(`${child}${this.yamlScalar(key)}:`, v, child),
+				),
+			];
+		}
+
+		// Literal blocks keep multi-line text readable; whitespace-only or control
+		// characters are left to a quoted scalar
+		if (
+			typeof value === "string" &&
+			value.includes("\n") &&
+			/\S/.test(value) &&
+			!this.YAML_UNPRINTABLE_REGEX.test(value)
+		) {
+			const trailing = value.match(/\n*$/)?.[0].length ?? 0;
+			const chomping = trailing === 0 ? "-" : trailing > 1 ? "+" : "";
+			const indentation = /^[ \t]/.test(value) ? "2" : "";
+			const body = value
+				.replace(/\n$/, "")
+				.split("\n")
+				.map((line) => (line ? `${child}${line}` : ""));
+			return [`${prefix} |${indentation}${chomping}`, ...body];
+		}
+
+		return [`${prefix} ${this.yamlScalar(value)}`];
+	}
+
+	private static yamlSequenceItem(item: unknown, indent: string): string[] {
+		const nested =
+			(Array.isArray(item) && item.length > 0) ||
+			(this.isFrontmatterMap(item) && Object.values(item).some((v) => v !== undefined));
+		if (!nested) return this.yamlNode(`${indent}-`, item, indent);
+
+		// Render the collection one level deeper, then put the dash in front of its first line
+		const child = `${indent}  `;
+		const lines = Array.isArray(item)
+			? item.flatMap((value) => this.yamlSequenceItem(value, child))
+			: Object.entries(item as Record<string, unknown>)
+					.filter(([, v]) => v !== undefined)
+					.flatMap(([key, v]) => this.yamlNode(`${child}${this.yamlScalar(key)}:`, v, child));
+		lines[0] = `${indent}- ${lines[0].slice(child.length)}`;
+		return lines;
+	}
+
+	private static isFrontmatterMap(value: unknown): value is Record<string, unknown> {
+		return (
+			typeof value === "object" &&
+			value !== null &&
+			!Array.isArray(value) &&
+			!(value instanceof Date) &&
+			!(value instanceof FrontmatterDate)
+		);
+	}
+
+	/** A single-line scalar, double-quoted when it would not read back as the same string. */
+	private static yamlScalar(value: unknown): string {
+		if (value === null) return "null";
+		if (value instanceof Date) return value.toISOString();
+		if (value instanceof FrontmatterDate && this.YAML_TIMESTAMP_REGEX.test(value.text)) {
+			return value.text;
+		}
+		if (typeof value === "number") {
+			if (Number.isNaN(value)) return ".nan";
+			if (!Number.isFinite(value)) return value > 0 ? ".inf" : "-.inf";
+			return String(value);
+		}
+		if (typeof value === "boolean" || typeof value === "bigint") return String(value);
+
+		const text = String(value);
+		return this.YAML_PLAIN_UNSAFE.some((pattern) => pattern.test(text))
+			? JSON.stringify(text)
+			: text;
 	}
 
 	static isImageAsset(type: string): boolean {
@@ -241,16 +1825,216 @@ export class MarkdownHelpers {
 	}
 }
 
+// Built-in renderers - register a renderer with the same name to override one
+export const admonitionRenderer: BlockRenderer = {
+	name: "admonition",
+	priority: 400,
+	matches: (block, _depth, { content, options }) =>
+		!!content &&
+		(options.calloutFormat ?? "keep") !== "keep" &&
+		MarkdownHelpers.getCalloutType(block) !== null,
+	render: async (block, depth, { content, options, renderChildren }) => [
+		MarkdownHelpers.rawParagraph(
+			MarkdownHelpers.formatCallout(
+				MarkdownHelpers.getCalloutType(block) ?? "note",
+				content,
+				options.calloutFormat ?? "keep",
+			),
+		),
+		...(await renderChildren(depth + 1)),
+	],
+};
+
+export const quoteRenderer: BlockRenderer = {
+	name: "quote",
+	priority: 300,
+	matches: (block, _depth, { content }) => !!content && MarkdownHelpers.isQuoteBlock(block),
+	render: async (_block, depth, { content, renderChildren }) => [
+		{ type: "blockquote", children: [MarkdownHelpers.rawParagraph(content)] },
+		// Process children at depth+1 so they nest like the children of regular blocks
+		...(await renderChildren(depth + 1)),
+	],
+};
+
+export const codeRenderer: BlockRenderer = {
+	name: "code",
+	priority: 200,
+	matches: (block, _depth, { content }) => !!content && MarkdownHelpers.isCodeBlock(block),
+	render: async (block, depth, { content, renderChildren }) => [
+		{ type: "code", lang: MarkdownHelpers.getCodeLanguage(block), value: content },
+		...(await renderChildren(depth + 1)),
+	],
+};
+
+export const headingRenderer: BlockRenderer = {
+	name: "heading",
+	priority: 100,
+	matches: (block, _depth, { content, options }) =>
+		!!content &&
+		!!(options.flattenNested || options.smartOutline) &&
+		MarkdownHelpers.getHeadingLevel(block) !== null,
+	render: async (block, depth, { content, renderChildren }) => [
+		{
+			type: "heading",
+			depth: (MarkdownHelpers.getHeadingLevel(block) ?? 1) as 1 | 2 | 3 | 4 | 5 | 6,
+			children: [{ type: "html", value: content }],
+		},
+		...(await renderChildren(depth)),
+	],
+};
+
+// Numbered blocks become one-item ordered lists; groupListItems merges siblings
+// into a single list, so each nesting level is numbered on its own
+export const orderedListRenderer: BlockRenderer = {
+	name: "ordered-list",
+	priority: 50,
+	matches: (block, _depth, { content }) => !!content && MarkdownHelpers.isOrderedListBlock(block),
+	render: async (_block, depth, { content, options, task, renderChildren }) => [
+		{
+			type: "list",
+			ordered: true,
+			spread: false,
+			children: [
+				{
+					type: "listItem",
+					spread: false,
+					checked: task && options.taskMarkers === "gfm" ? MarkdownHelpers.isTaskDone(task) : null,
+					children: [
+						MarkdownHelpers.rawParagraph(content),
+						...(await renderChildren(depth + 1)),
+					] as ListItem["children"],
+				},
+			],
+		},
+	],
+};
+
+export const BUILTIN_RENDERERS: readonly BlockRenderer[] = [
+	admonitionRenderer,
+	quoteRenderer,
+	codeRenderer,
+	headingRenderer,
+	orderedListRenderer,
+];
+
+// Request scheduling
+/**
+ * Runs Logseq API requests with at most `limit` in flight at once. Requests made
+ * with the same key while one is pending share its promise, so blocks that
+ * reference the same UUID concurrently cost a single lookup.
+ */
+export class RequestScheduler {
+	private active = 0;
+	private waiting: (() => void)[] = [];
+	private inFlight = new Map<string, Promise<unknown>>();
+
+	constructor(private limit = 6) {}
+
+	run<T>(key: string | null, request: () => Promise<T>): Promise<T> {
+		const pending = key === null ? undefined : this.inFlight.get(key);
+		if (pending) return pending as Promise<T>;
+
+		const promise = this.acquire()
+			.then(request)
+			.finally(() => {
+				this.release();
+				if (key !== null) this.inFlight.delete(key);
+			});
+		if (key !== null) this.inFlight.set(key, promise);
+		return promise;
+	}
+
+	/** Number of requests currently running (not counting queued ones). */
+	get activeCount(): number {
+		return this.active;
+	}
+
+	private acquire(): Promise<void> {
+		if (this.active < this.limit) {
+			this.active++;
+			return Promise.resolve();
+		}
+		// The slot is handed over by release, so active stays at the limit
+		return new Promise((resolve) => this.waiting.push(resolve));
+	}
+
+	private release(): void {
+		const next = this.waiting.shift();
+		if (next) next();
+		else this.active--;
+	}
+}
+
+/**
+ * Routes every data request of a LogseqAPI through the scheduler, keyed by
+ * method and UUID (or query). Messages to the user are not scheduled.
+ */
+export function scheduleLogseqAPI(api: LogseqAPI, scheduler: RequestScheduler): LogseqAPI {
+	return {
+		getCurrentPage: () => scheduler.run("getCurrentPage", () => api.getCurrentPage()),
+		getCurrentBlock: () => scheduler.run("getCurrentBlock", () => api.getCurrentBlock()),
+		getPage: (id) => scheduler.run(`getPage:${id}`, () => api.getPage(id)),
+		getBlock: (id, opts) =>
+			scheduler.run(`getBlock:${id}:${Boolean(opts?.includeChildren)}`, () =>
+				api.getBlock(id, opts),
+			),
+		getPageBlocksTree: (pageUuid) =>
+			scheduler.run(`getPageBlocksTree:${pageUuid}`, () => api.getPageBlocksTree(pageUuid)),
+		getCurrentGraph: () => scheduler.run("getCurrentGraph", () => api.getCurrentGraph()),
+		datascriptQuery: (query) =>
+			scheduler.run(`datascriptQuery:${query}`, () => api.datascriptQuery(query)),
+		q: (query) => scheduler.run(`q:${query}`, () => api.q(query)),
+		showMsg: (message, type) => api.showMsg(message, type),
+	};
+}
+
 // Main exporter class
 export class MarkdownExporter {
 	private processedBlocks = new Set<string>();
 	private blockRefCache = new Map<string, string>();
 	private referencedAssets = new Map<string, AssetInfo>();
+	// Page refs resolved by UUID, so [[uuid]] can be rendered as a link to the page
+	private pageNames = new Map<string, string>();
+	// Blocks in the export and the blocks they reference with ((uuid)), for anchor
+	// links, and the blocks an anchor was actually written on
+	private exportedBlocks = new Set<string>();
+	private referencedBlocks = new Set<string>();
+	private anchoredBlocks = new Set<string>();
+	// Blocks left out by excludeTag or blogseq-exclude::, with their descendants,
+	// so references and embeds don't bring their content back in
+	private excludedBlocks = new Set<string>();
+	private excludeTag: string | undefined;
+	// Slug properties of linked pages (shared with the options as pageSlugs) and
+	// the page names already looked up for them
+	private pageSlugs: Record<string, string> = {};
+	private slugLookups = new Set<string>();
+	// Block refs turned into footnotes, by block UUID. References are written with
+	// a placeholder label and numbered by their order in the document in serialize
+	private footnotes = new Map<string, { label: string; text: string }>();
+	// Blocks transcluded by {{embed}} macros, by embedding block, and how deep
+	// in nested embeds each transcluded block sits
+	private embeddedChildren = new Map<string, BlockEntity[]>();
+	private embedDepths = new Map<string, number>();
+	// Frozen {{query}} / #+BEGIN_QUERY results, by the block holding the query
+	private querySnapshots = new Map<string, RootContent[]>();
+	// Smart outline format chosen for each block from its position
+	private outlineFormats = new Map<string, OutlineFormat>();
+	// Task block whose metadata was lifted into frontmatter instead of badges
+	private frontmatterTaskBlock: string | null = null;
+	// Plain UUIDs rewritten by resolvePlainUuids, for the preview
+	private uuidSubstitutions: UuidSubstitution[] = [];
+	// Redirect pages for the exported page's aliases, by path in the ZIP
+	private redirectStubs = new Map<string, string>();
+	private renderers = new Map<string, BlockRenderer>(
+		BUILTIN_RENDERERS.map((renderer) => [renderer.name, renderer]),
+	);
 	private graphPath = "";
 	private debugEnabled = false;
 
+	private logseqAPI: LogseqAPI;
+
 	constructor(
-		private logseqAPI: LogseqAPI = {
+		logseqAPI: LogseqAPI = {
 			getCurrentPage: () => logseq.Editor.getCurrentPage(),
 			getCurrentBlock: () => logseq.Editor.getCurrentBlock(),
 			getPage: (uuid) => logseq.Editor.getPage(uuid),
@@ -258,6 +2042,7 @@ export class MarkdownExporter {
 			getPageBlocksTree: (uuid) => logseq.Editor.getPageBlocksTree(uuid),
 			getCurrentGraph: () => logseq.App.getCurrentGraph(),
 			datascriptQuery: (query) => logseq.DB.datascriptQuery(query),
+			q: (query) => logseq.DB.q(query),
 			showMsg: (msg, type) => logseq.UI.showMsg(msg, type),
 		},
 		private fileAPI: FileAPI = {
@@ -272,7 +2057,10 @@ export class MarkdownExporter {
 			appendChild: (element) => document.body.appendChild(element),
 			removeChild: (element) => document.body.removeChild(element),
 		},
-	) {}
+		requestScheduler: RequestScheduler = new RequestScheduler(),
+	) {
+		this.logseqAPI = scheduleLogseqAPI(logseqAPI, requestScheduler);
+	}
 
 	private debug(...args: unknown[]): void {
 		if (this.debugEnabled) console.log(...args);
@@ -296,6 +2084,9 @@ export class MarkdownExporter {
 		const currentPage = await this.logseqAPI.getCurrentPage();
 		if (!currentPage) throw new Error("NO_ACTIVE_PAGE");
 
+		if (MarkdownHelpers.isExcluded(currentPage, opts.excludeTag))
+			throw new Error("EXPORT_EXCLUDED");
+
 		// Check if getCurrentPage() returned a focused block (when zoomed)
 		// When zoomed into a block, getCurrentPage() returns the block object with a "page" property
 		if (this.isBlock(currentPage)) {
@@ -305,6 +2096,13 @@ export class MarkdownExporter {
 
 		// Otherwise export as a page
 
+		// Namespace pages are written into directories, so assets are further up
+		if (opts.pathStrategy === "namespace") {
+			const depth = MarkdownHelpers.namespaceSegments(String(currentPage.name ?? "")).length - 1;
+			opts.assetPath = MarkdownHelpers.relativeAssetPath(opts.assetPath, depth);
+			opts.pageDepth = depth;
+		}
+
 		const graph = await this.logseqAPI.getCurrentGraph();
 		if (graph?.path) this.graphPath = graph.path;
 
@@ -313,22 +2111,54 @@ export class MarkdownExporter {
 		// Reset state
 		this.processedBlocks.clear();
 		this.blockRefCache.clear();
+		this.pageNames.clear();
+		this.exportedBlocks.clear();
+		this.referencedBlocks.clear();
+		this.anchoredBlocks.clear();
+		this.excludedBlocks.clear();
+		this.excludeTag = opts.excludeTag;
+		this.pageSlugs = {};
+		this.slugLookups.clear();
+		opts.pageSlugs = this.pageSlugs;
+		this.footnotes.clear();
+		this.embeddedChildren.clear();
+		this.embedDepths.clear();
+		this.querySnapshots.clear();
+		this.outlineFormats.clear();
 		this.referencedAssets.clear();
+		this.frontmatterTaskBlock = null;
+		this.uuidSubstitutions = [];
+		this.redirectStubs.clear();
 
 		// Build markdown
-		let markdown = "";
+		let frontmatter = "";
+
+		if (opts.includeProperties && opts.frontmatterFormat !== "none") {
+			const taskMetadata = await this.liftTaskMetadata(pageBlocks || [], opts);
+			frontmatter = await this.generateFrontmatter(
+				currentPage,
+				opts,
+				taskMetadata,
+				pageBlocks || [],
+			);
+		}
 
-		if (opts.includeProperties) {
-			const frontmatter = await this.generateFrontmatter(currentPage, opts.assetPath);
-			if (frontmatter) markdown = frontmatter + "\n";
+		if (opts.aliasRedirects === "html") {
+			await this.collectRedirectStubs(currentPage, opts);
 		}
 
+		const nodes: RootContent[] = [];
+
 		if (opts.includePageName) {
-			markdown += `# ${currentPage.name}\n\n`;
+			nodes.push({
+				type: "heading",
+				depth: 1,
+				children: [{ type: "text", value: String(currentPage.name) }],
+			});
 		}
 
 		if (!pageBlocks || pageBlocks.length === 0) {
-			return markdown.trim() || "";
+			return this.serialize(frontmatter, nodes);
 		}
 
 		// Pre-cache references
@@ -344,96 +2174,300 @@ export class MarkdownExporter {
 				continue;
 			}
 
-			markdown += await this.processBlock(block, 0, opts);
+			nodes.push(...(await this.processBlock(block, 0, opts)));
 		}
 
-		return MarkdownHelpers.postProcessMarkdown(markdown);
+		return this.serialize(frontmatter, nodes);
+	}
+
+	private serialize(frontmatter: string, nodes: RootContent[]): string {
+		const children = MarkdownHelpers.groupListItems(nodes);
+		let body = MarkdownHelpers.toMarkdown({ type: "root", children });
+
+		if (this.footnotes.size > 0) {
+			// Number footnotes by where they are first referenced; blocks are processed
+			// concurrently, so the order they were registered in isn't stable
+			const numbers = new Map<string, string>();
+			for (const [placeholder] of body.matchAll(/\[\^fn-[0-9a-f-]+\]/gi)) {
+				if (!numbers.has(placeholder)) numbers.set(placeholder, String(numbers.size + 1));
+			}
+			const definitions: RootContent[] = Array.from(this.footnotes.values())
+				.filter(({ label }) => numbers.has(`[^${label}]`))
+				.map(({ label, text }) => ({ number: numbers.get(`[^${label}]`) ?? "", text }))
+				.sort((a, b) => Number(a.number) - Number(b.number))
+				.map(({ number, text }) => ({
+					type: "footnoteDefinition",
+					identifier: number,
+					label: number,
+					children: [MarkdownHelpers.rawParagraph(text)],
+				}));
+			body = MarkdownHelpers.toMarkdown({
+				type: "root",
+				children: [...children, ...definitions],
+			}).replace(/\[\^fn-[0-9a-f-]+\]/gi, (placeholder) => `[^${numbers.get(placeholder)}]`);
+		}
+
+		// Code blocks, assets and blocks without text get no anchor, and a ref can be
+		// resolved before its target is processed; links to those fall back to their text
+		body = body.replace(
+			/\[((?:[^[\]\n]|\[[^[\]\n]*\])*)\]\(#block-([0-9a-f-]{36})\)/gi,
+			(link, text: string, uuid: string) => (this.anchoredBlocks.has(uuid) ? link : text),
+		);
+
+		if (!frontmatter) return body;
+		return body ? `${frontmatter}\n${body}` : frontmatter.trim();
 	}
 
 	private async processBlock(
 		block: BlockEntity,
 		depth: number,
 		options: ExportOptions,
-	): Promise<string> {
-		if (!block) return "";
+	): Promise<RootContent[]> {
+		if (!block) return [];
 
-		if (block.uuid && this.processedBlocks.has(block.uuid)) return "";
+		if (block.uuid && this.processedBlocks.has(block.uuid)) return [];
 		if (block.uuid) this.processedBlocks.add(block.uuid);
 
+		if (MarkdownHelpers.isExcluded(block, options.excludeTag)) {
+			this.debug(`Excluding block ${block.uuid} and its children`);
+			return [];
+		}
+
 		// Check if this block itself is an asset
 		if (block.uuid) {
 			const assetInfo = await this.detectAsset(block.uuid);
 			if (assetInfo) {
 				const assetPath = options.assetPath ?? "assets/";
-				const markdown = this.createAssetLink(block.uuid, assetInfo, assetPath);
-				return markdown + "\n\n" + (await this.processChildren(block, depth, options));
+				const asset = this.registerAsset(block.uuid, assetInfo, assetPath);
+				const paragraph: Paragraph = {
+					type: "paragraph",
+					children: [
+						MarkdownHelpers.isImageAsset(asset.type)
+							? { type: "image", url: asset.exportPath, alt: asset.title }
+							: {
+									type: "link",
+									url: asset.exportPath,
+									children: [{ type: "text", value: asset.title }],
+								},
+					],
+				};
+				return [paragraph, ...(await this.processChildren(block, depth, options))];
 			}
 		}
 
 		let content = block.content || "";
 
-		if (MarkdownHelpers.isPropertyOnlyBlock(content)) {
+		// Code block content is source text, not Logseq markup - export it exactly as written
+		const isCode = MarkdownHelpers.isCodeBlock(block);
+
+		// Mixed-format graphs: org blocks are converted before any markdown handling
+		if (!isCode && block.format === "org") {
+			content = MarkdownHelpers.orgToMarkdown(content);
+		}
+
+		if (!isCode && MarkdownHelpers.isPropertyOnlyBlock(content)) {
 			return this.processChildren(block, depth, options);
 		}
 
-		// Process content
-		if (options.preserveBlockRefs) {
-			content = await this.resolveReferences(content, options.assetPath ?? "assets/", options);
+		if (!isCode && options.removeLogseqSyntax) {
+			await this.loadEmbeds(block, content, options);
+			// The embedded UUID must not be resolved as a block reference below
+			content = MarkdownHelpers.removeEmbeds(content);
 		}
 
-		if (options.removeLogseqSyntax) {
-			content = MarkdownHelpers.cleanLogseqSyntax(content, options);
+		if (!isCode && options.queryResults && options.queryResults !== "strip") {
+			content = await this.snapshotQueries(block, content, options.queryResults, options);
+		} else if (!isCode && options.removeLogseqSyntax) {
+			// Query blocks go with the {{query}} macros that cleanLogseqSyntax removes
+			content = MarkdownHelpers.extractQueries(content).content;
 		}
 
-		content = await this.trackAssets(content, options.assetPath ?? "assets/");
+		// Take the task marker off first so it survives syntax cleaning in every mode
+		const taskMode = options.taskMarkers ?? "strip";
+		const task = !isCode && taskMode !== "strip" ? await this.getTaskMarker(block, content) : null;
+		if (task) content = task.content;
+
+		// Priority and SCHEDULED/DEADLINE are lifted out too, then rendered as badges,
+		// moved to frontmatter (see exportFocusedBlock) or dropped
+		let taskMetadata: TaskMetadata = {};
+		if (!isCode) {
+			const extracted = await this.getTaskMetadata(block, content);
+			content = extracted.content;
+			if (options.taskMetadata === "badges" && block.uuid !== this.frontmatterTaskBlock) {
+				taskMetadata = extracted.metadata;
+			}
+		}
+
+		// Process content
+		if (!isCode) {
+			content = MarkdownHelpers.convertCallouts(content, options.calloutFormat ?? "keep");
 
-		// Check if this is a quote block
-		const isQuote = MarkdownHelpers.isQuoteBlock(block);
+			if (options.preserveBlockRefs) {
+				content = await this.resolveReferences(content, options.assetPath ?? "assets/", options);
+			}
 
-		// Check if this is a code block
-		const isCodeBlock = MarkdownHelpers.isCodeBlock(block);
+			content = MarkdownHelpers.normalizeInlineFormatting(content, options.inlineFormatting);
 
-		// Format as markdown
-		const headingLevel = MarkdownHelpers.getHeadingLevel(block);
+			if (options.removeLogseqSyntax) {
+				content = MarkdownHelpers.cleanLogseqSyntax(content, options);
+			}
 
-		// Debug logging for heading detection
-		if (this.debugEnabled && headingLevel !== null) {
-			this.debug(`Block with heading level ${headingLevel}:`, block.content);
+			content = await this.trackAssets(content, options.assetPath ?? "assets/");
 		}
 
-		// Handle quote blocks - check this BEFORE headings
-		if (isQuote && content) {
-			const quotedContent = content
-				.split("\n")
-				.map((line) => `> ${line}`)
-				.join("\n");
-			// Process children at depth+1 for proper list indentation (same as regular blocks)
-			return quotedContent + "\n\n" + (await this.processChildren(block, depth + 1, options));
+		if (Object.keys(taskMetadata).length > 0) {
+			content = MarkdownHelpers.formatTaskBadges(content, taskMetadata);
 		}
 
-		// Handle code blocks - check this BEFORE headings
-		if (isCodeBlock && content) {
-			const lang = MarkdownHelpers.getCodeLanguage(block);
-			const langTag = lang ? lang : "";
-			const codeBlock = "```" + langTag + "\n" + content + "\n```";
-			return codeBlock + "\n\n" + (await this.processChildren(block, depth + 1, options));
+		// Target of an anchor-mode block ref elsewhere in the export
+		if (
+			!isCode &&
+			content &&
+			options.blockRefMode === "anchor" &&
+			this.referencedBlocks.has(block.uuid)
+		) {
+			content = `<a id="block-${block.uuid}"></a>${content}`;
+			this.anchoredBlocks.add(block.uuid);
 		}
 
-		if (headingLevel !== null && content && options.flattenNested) {
-			const heading = "#".repeat(headingLevel) + " " + content;
-			return heading + "\n\n" + (await this.processChildren(block, depth, options));
+		if (task && taskMode === "keep") {
+			content = `${task.marker} ${content}`;
+		} else if (task && taskMode === "emoji") {
+			content = `${MarkdownHelpers.getTaskEmoji(task.marker)} ${content}`;
+		} else if (task && taskMode === "gfm" && MarkdownHelpers.isTaskCancelled(task.marker)) {
+			// A ticked box alone would read as done
+			content = MarkdownHelpers.strikeThrough(content);
+		}
+
+		const context: BlockRenderContext = {
+			content,
+			options,
+			task: task?.marker ?? null,
+			renderChildren: (childDepth) => this.processChildren(block, childDepth, options),
+		};
+
+		for (const renderer of this.getRenderers()) {
+			if (renderer.matches(block, depth, context)) {
+				this.debug(`Block ${block.uuid} claimed by renderer "${renderer.name}"`);
+				return renderer.render(block, depth, context);
+			}
+		}
+
+		const paragraphs = content ? [MarkdownHelpers.rawParagraph(content)] : [];
+		// GFM task list items carry their state; tasks always render as list items
+		const checked = task && taskMode === "gfm" ? MarkdownHelpers.isTaskDone(task.marker) : null;
+
+		if (options.smartOutline) {
+			const format =
+				MarkdownHelpers.getOutlineFormat(block) ??
+				this.outlineFormats.get(block.uuid) ??
+				"paragraph";
+			if (format === "paragraph" && checked === null) {
+				return [...paragraphs, ...(await this.processChildren(block, depth + 1, options))];
+			}
 		} else if (options.flattenNested) {
-			const markdown = content ? `${content}\n\n` : "";
-			return markdown + (await this.processChildren(block, depth, options));
-		} else if (depth === 0) {
+			const children = await this.processChildren(block, depth, options);
+			if (checked === null || !content) return [...paragraphs, ...children];
+			return [{ type: "listItem", spread: false, checked, children: paragraphs }, ...children];
+		} else if (depth === 0 && checked === null) {
 			// Top-level blocks are paragraphs, but children start list formatting at depth 1
-			const markdown = content ? `${content}\n\n` : "";
-			return markdown + (await this.processChildren(block, depth + 1, options));
-		} else {
-			// List formatting: depth-1 gives correct indentation (depth=1 → no indent, depth=2 → 2 spaces, etc.)
-			const indent = "  ".repeat(depth - 1);
-			const markdown = content ? `${indent}- ${content}\n` : "";
-			return markdown + (await this.processChildren(block, depth + 1, options));
+			return [...paragraphs, ...(await this.processChildren(block, depth + 1, options))];
+		}
+
+		// List formatting: the block becomes a list item with its children nested inside.
+		// Blocks without content hoist their children up to this level.
+		const children = await this.processChildren(block, depth + 1, options);
+		if (!content) return children;
+
+		const item: ListItem = {
+			type: "listItem",
+			spread: false,
+			checked,
+			children: [...paragraphs, ...children] as ListItem["children"],
+		};
+		return [item];
+	}
+
+	/**
+	 * Finds the block's task marker: a file-graph marker at the start of the
+	 * content, or the DB-version status property (resolved through DataScript
+	 * when it is an entity id).
+	 */
+	private async getTaskMarker(
+		block: BlockEntity,
+		content: string,
+	): Promise<{ marker: string; content: string } | null> {
+		const parsed = MarkdownHelpers.parseTaskMarker(content);
+		if (parsed) return parsed;
+
+		const status = await this.getClosedValue(block, "logseq.property/status");
+		const marker = MarkdownHelpers.statusToMarker(status);
+		return marker ? { marker, content } : null;
+	}
+
+	/**
+	 * Collects priority, SCHEDULED and DEADLINE from the content (file graphs) and
+	 * from the DB-version properties, returning the content with them removed.
+	 */
+	private async getTaskMetadata(
+		block: BlockEntity,
+		content: string,
+	): Promise<{ metadata: TaskMetadata; content: string }> {
+		const extracted = MarkdownHelpers.extractTaskMetadata(content);
+		const metadata = extracted.metadata;
+
+		if (!metadata.priority) {
+			const name = MarkdownHelpers.getClosedValueName(
+				await this.getClosedValue(block, "logseq.property/priority"),
+			);
+			if (name) metadata.priority = name.charAt(0).toUpperCase() + name.slice(1);
+		}
+
+		for (const key of ["scheduled", "deadline"] as const) {
+			const value = MarkdownHelpers.getBlockProperty(block, `logseq.property/${key}`);
+			if (!metadata[key] && typeof value === "number") {
+				metadata[key] = MarkdownHelpers.formatTimestamp(value);
+			}
+		}
+
+		return { metadata, content: extracted.content };
+	}
+
+	/**
+	 * When the export root is a single task block, returns its metadata for the
+	 * frontmatter and remembers the block so it doesn't also get badges.
+	 */
+	private async liftTaskMetadata(
+		blocks: BlockEntity[],
+		opts: ExportOptions,
+	): Promise<TaskMetadata> {
+		const roots = blocks.filter(Boolean);
+		if (!opts.taskMetadataFrontmatter || roots.length !== 1) return {};
+
+		const [root] = roots;
+		if (!(await this.getTaskMarker(root, root.content || ""))) return {};
+
+		const { metadata } = await this.getTaskMetadata(root, root.content || "");
+		this.frontmatterTaskBlock = root.uuid;
+		return metadata;
+	}
+
+	/**
+	 * Reads a closed-value property (status, priority), resolving an entity id to
+	 * its ident through DataScript.
+	 */
+	private async getClosedValue(block: BlockEntity, key: string): Promise<unknown> {
+		const value = MarkdownHelpers.getBlockProperty(block, key);
+		if (typeof value !== "number") return value;
+
+		try {
+			const result = await this.logseqAPI.datascriptQuery(
+				`[:find ?ident :where [${value} :db/ident ?ident]]`,
+			);
+			return result?.[0]?.[0] ?? null;
+		} catch (err) {
+			this.debug(`Failed to resolve ${key} ${value}:`, err);
+			return null;
 		}
 	}
 
@@ -441,14 +2475,114 @@ export class MarkdownExporter {
 		block: BlockEntity,
 		depth: number,
 		options: ExportOptions,
-	): Promise<string> {
-		if (!block.children?.length) return "";
+	): Promise<RootContent[]> {
+		// Transcluded blocks come first: they stand in for the block's {{embed}} macros
+		const children = [
+			...(this.embeddedChildren.get(block.uuid) ?? []),
+			...((block.children ?? []) as BlockEntity[]),
+		];
+		const snapshots = this.querySnapshots.get(block.uuid) ?? [];
+		if (!children.length) return snapshots;
+
+		// Smart outline: the body of a page or heading is prose; below that, blocks
+		// with siblings form a list and an only child stays a paragraph
+		if (options.smartOutline) {
+			const isSection = depth === 0 || MarkdownHelpers.getHeadingLevel(block) !== null;
+			const format = isSection || children.length === 1 ? "paragraph" : "list";
+			for (const child of children) {
+				if (child?.uuid) this.outlineFormats.set(child.uuid, format);
+			}
+		}
 
 		const results = await Promise.all(
-			(block.children as BlockEntity[]).map((child) => this.processBlock(child, depth, options)),
+			children.map((child) => this.processBlock(child, depth, options)),
 		);
 
-		return results.join("");
+		return [...snapshots, ...MarkdownHelpers.groupListItems(results.flat())];
+	}
+
+	/**
+	 * Fetches the pages and blocks embedded in a block so they are exported as its
+	 * children. Blocks that were already exported are skipped by processBlock, which
+	 * stops embed cycles; maxEmbedDepth limits embeds nested inside embeds.
+	 */
+	private async loadEmbeds(block: BlockEntity, content: string, options: ExportOptions) {
+		const embeds = MarkdownHelpers.extractEmbeds(content);
+		if (!embeds.length) return;
+
+		const embedDepth = (this.embedDepths.get(block.uuid) ?? 0) + 1;
+		const maxDepth = options.maxEmbedDepth ?? DEFAULT_OPTIONS.maxEmbedDepth;
+		if (embedDepth > maxDepth) {
+			this.debug(`Skipping embeds in ${block.uuid}: deeper than ${maxDepth}`);
+			return;
+		}
+
+		const embedded: BlockEntity[] = [];
+		for (const { type, target } of embeds) {
+			try {
+				if (type === "page") {
+					const page = await this.logseqAPI.getPage(target);
+					if (page && MarkdownHelpers.isExcluded(page, this.excludeTag)) continue;
+					embedded.push(...((await this.logseqAPI.getPageBlocksTree(target)) ?? []));
+				} else {
+					const root = await this.logseqAPI.getBlock(target, { includeChildren: true });
+					if (root && !(await this.isExcludedBlock(root))) embedded.push(root);
+				}
+			} catch (err) {
+				this.debug(`Failed to load embedded ${type} ${target}:`, err);
+			}
+		}
+
+		const markDepth = (blocks: BlockEntity[]) => {
+			for (const child of blocks) {
+				if (!child) continue;
+				this.embedDepths.set(child.uuid, embedDepth);
+				markDepth((child.children ?? []) as BlockEntity[]);
+			}
+		};
+		markDepth(embedded);
+
+		await this.cacheBlockReferences(embedded);
+		this.embeddedChildren.set(block.uuid, embedded);
+	}
+
+	/**
+	 * Runs the block's queries and keeps the rendered results to export ahead of
+	 * its children. Returns the content without its #+BEGIN_QUERY blocks.
+	 */
+	private async snapshotQueries(
+		block: BlockEntity,
+		content: string,
+		mode: Exclude<QueryResultMode, "strip">,
+		options: ExportOptions,
+	): Promise<string> {
+		const extracted = MarkdownHelpers.extractQueries(content);
+		if (!extracted.queries.length) return content;
+
+		const snapshots: RootContent[] = [];
+		for (const source of extracted.queries) {
+			try {
+				const rows =
+					source.type === "datalog"
+						? await this.logseqAPI.datascriptQuery(source.query)
+						: ((await this.logseqAPI.q(source.query)) ?? []);
+				const entities = rows
+					.flatMap((row) => (Array.isArray(row) ? row : [row]))
+					.filter(
+						(value): value is Record<string, unknown> => !!value && typeof value === "object",
+					);
+				for (const entity of entities) {
+					const { isPage, title } = MarkdownHelpers.describeQueryResult(entity);
+					if (isPage) this.recordPageSlug(entity, title);
+				}
+				snapshots.push(MarkdownHelpers.renderQueryResults(entities, mode, options));
+			} catch (err) {
+				this.debug(`Failed to run query ${source.query}:`, err);
+			}
+		}
+
+		this.querySnapshots.set(block.uuid, snapshots);
+		return extracted.content;
 	}
 
 	private async resolveReferences(
@@ -464,6 +2598,10 @@ export class MarkdownExporter {
 			/\[\[([a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12})\]\]/gi,
 			async (_, uuid) => {
 				const resolved = await this.resolveUuid(String(uuid), assetPath);
+				const pageName = this.pageNames.get(String(uuid));
+				if (pageName !== undefined && options) {
+					return MarkdownHelpers.formatPageLink(pageName, options);
+				}
 				return resolved ?? `[[${uuid}]]`;
 			},
 		);
@@ -475,32 +2613,123 @@ export class MarkdownExporter {
 			async (_, uuid) => {
 				const uuidStr = String(uuid);
 				const resolved = await this.resolveUuid(uuidStr, assetPath);
-				return resolved ?? `[Unresolved: ${uuidStr.substring(0, 8)}...]`;
+				if (resolved === null) return `[Unresolved: ${uuidStr.substring(0, 8)}...]`;
+
+				const mode = options?.blockRefMode ?? "inline";
+				if (mode === "inline") return resolved;
+
+				// Anchor and footnote text ends up inside a link or a definition, so it is
+				// cleaned here and kept to one line
+				const text = MarkdownHelpers.cleanLogseqSyntax(resolved, {
+					...options,
+					linkMode: "plain",
+				}).replace(/\s*\n\s*/g, " ");
+				if (mode === "anchor" && this.exportedBlocks.has(uuidStr)) {
+					return `[${text}](#block-${uuidStr})`;
+				}
+				if (mode === "footnote" && options) {
+					return this.addFootnote(uuidStr, text, options);
+				}
+				// Anchor mode falls back to inline for blocks outside the export
+				return resolved;
 			},
 		);
 
 		// Handle plain UUIDs only if resolvePlainUuids is enabled (defaults to true if not specified)
 		if (options?.resolvePlainUuids !== false) {
-			result = await this.replaceAsync(
-				result,
-				/\b([a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12})\b/gi,
-				async (match, uuid, offset) => {
-					const matchStr = String(match);
-					const uuidStr = String(uuid);
-					const offsetNum = Number(offset);
-					const preceding = result[offsetNum - 1];
-					if (["/", "-", "_"].includes(preceding)) return matchStr;
-
-					const resolved = await this.resolveUuid(uuidStr, assetPath);
-					return resolved ?? matchStr;
-				},
-			);
+			result = await this.resolvePlainUuids(result, assetPath);
 		}
 
 		return result;
 	}
 
-	private async resolveUuid(uuid: string, assetPath: string): Promise<string | null> {
+	/**
+	 * Replaces UUIDs standing on their own in prose with the entity they identify.
+	 * Code, math, macros, URLs and link destinations are skipped, as are UUIDs that
+	 * are part of a path, file name or query string, and UUIDs of no entity in the
+	 * graph. Every substitution is recorded (see getUuidSubstitutions).
+	 */
+	private async resolvePlainUuids(content: string, assetPath: string): Promise<string> {
+		const parts = await Promise.all(
+			MarkdownHelpers.tokenize(content).map((token) => {
+				if (token.type !== "text") return token.value;
+				const text = token.value;
+
+				return this.replaceAsync(
+					text,
+					/\b([a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12})\b/gi,
+					async (match, uuid, offset) => {
+						const uuidStr = String(uuid);
+						const start = Number(offset);
+						const before = text[start - 1] ?? "";
+						const after = text.slice(start + match.length);
+						if (/[/\\\-_=&?#:@.]/.test(before) || /^([/\-_]|\.\w)/.test(after)) return match;
+
+						const resolved = await this.resolveUuid(uuidStr, assetPath, true);
+						if (resolved === null) return match;
+
+						this.uuidSubstitutions.push({
+							uuid: uuidStr,
+							kind: this.pageNames.has(uuidStr)
+								? "page"
+								: this.referencedAssets.has(uuidStr)
+									? "asset"
+									: "block",
+							replacement: resolved,
+						});
+						return resolved;
+					},
+				);
+			}),
+		);
+
+		return parts.join("");
+	}
+
+	/**
+	 * Registers a block ref as a footnote quoting the block and naming the page it
+	 * comes from. The same block always gets the same footnote.
+	 */
+	private async addFootnote(uuid: string, text: string, options: ExportOptions): Promise<string> {
+		const existing = this.footnotes.get(uuid);
+		if (existing) return `[^${existing.label}]`;
+
+		// Registered before the page lookup so concurrent references share the entry
+		const footnote = { label: `fn-${uuid.toLowerCase()}`, text: `“${text}”` };
+		this.footnotes.set(uuid, footnote);
+
+		const source = await this.getBlockPageName(uuid);
+		if (source) footnote.text = `“${text}” — ${MarkdownHelpers.formatPageLink(source, options)}`;
+		return `[^${footnote.label}]`;
+	}
+
+	private async getBlockPageName(uuid: string): Promise<string | null> {
+		try {
+			const block = await this.logseqAPI.getBlock(uuid, { includeChildren: false });
+			const pageId = block?.page?.id;
+			if (pageId === undefined) return null;
+			const page = await this.logseqAPI.getPage(pageId);
+			if (!page || !("name" in page) || !page.name) return null;
+			this.recordPageSlug(page);
+			return String(page.name);
+		} catch (err) {
+			this.debug(`Failed to find the page of block ${uuid}:`, err);
+			return null;
+		}
+	}
+
+	/**
+	 * Resolves a UUID to an asset link, page name or block content. With `strict`
+	 * the page or block returned must carry the UUID, so a lookup that falls back
+	 * to some other entity doesn't count as a match.
+	 */
+	private async resolveUuid(
+		uuid: string,
+		assetPath: string,
+		strict = false,
+	): Promise<string | null> {
+		if (this.excludedBlocks.has(uuid)) return null;
+
 		// Check cache - return any cached value
 		const cached = this.blockRefCache.get(uuid);
 		if (cached !== undefined) {
@@ -516,9 +2745,16 @@ export class MarkdownExporter {
 		// Try as page
 		try {
 			const page = await this.logseqAPI.getPage(uuid);
-			if (page && "name" in page && page.name) {
+			if (
+				page &&
+				"name" in page &&
+				page.name &&
+				(!strict || MarkdownHelpers.extractUuid(page.uuid) === uuid)
+			) {
 				const name = String(page.name);
 				this.blockRefCache.set(uuid, name);
+				this.pageNames.set(uuid, name);
+				this.recordPageSlug(page);
 				return name;
 			}
 		} catch {
@@ -528,7 +2764,8 @@ export class MarkdownExporter {
 		// Try as block
 		try {
 			const block = await this.logseqAPI.getBlock(uuid, { includeChildren: false });
-			if (block?.content) {
+			if (block?.content && (!strict || MarkdownHelpers.extractUuid(block.uuid) === uuid)) {
+				if (await this.isExcludedBlock(block)) return null;
 				let content = await this.resolveReferences(block.content, assetPath, {
 					resolvePlainUuids: true,
 				});
@@ -610,6 +2847,21 @@ export class MarkdownExporter {
 		info: { type: string; entity?: LogseqEntity },
 		assetPath: string,
 	): string {
+		const asset = this.registerAsset(uuid, info, assetPath);
+
+		// Create markdown link
+		const isImage = MarkdownHelpers.isImageAsset(asset.type);
+		const markdown = `${isImage ? "!" : ""}[${asset.title}](${asset.exportPath})`;
+		this.blockRefCache.set(uuid, markdown);
+
+		return markdown;
+	}
+
+	private registerAsset(
+		uuid: string,
+		info: { type: string; entity?: LogseqEntity },
+		assetPath: string,
+	): AssetInfo {
 		// Try different property locations for title
 		const title =
 			info.entity?.title ||
@@ -623,20 +2875,16 @@ export class MarkdownExporter {
 		const exportPath = `${path}${uuid}.${info.type}`;
 
 		// Track asset
-		this.referencedAssets.set(uuid, {
+		const asset: AssetInfo = {
 			uuid,
 			title: titleStr,
 			type: info.type,
 			originalPath: `${this.graphPath}/assets/${uuid}.${info.type}`,
 			exportPath,
-		});
-
-		// Create markdown link
-		const isImage = MarkdownHelpers.isImageAsset(info.type);
-		const markdown = `${isImage ? "!" : ""}[${titleStr}](${exportPath})`;
-		this.blockRefCache.set(uuid, markdown);
+		};
+		this.referencedAssets.set(uuid, asset);
 
-		return markdown;
+		return asset;
 	}
 
 	private async trackAssets(content: string, assetPath: string): Promise<string> {
@@ -674,7 +2922,17 @@ export class MarkdownExporter {
 		for (const block of blocks) {
 			if (block && block.uuid && !visited.has(block.uuid)) {
 				visited.add(block.uuid);
+				if (MarkdownHelpers.isExcluded(block, this.excludeTag)) {
+					this.markExcluded(block);
+					continue;
+				}
 				this.blockRefCache.set(block.uuid, block.content || "");
+				this.exportedBlocks.add(block.uuid);
+				const refs = MarkdownHelpers.removeEmbeds(block.content || "");
+				for (const match of refs.matchAll(/\(\(([a-f0-9-]{36})\)\)/gi)) {
+					this.referencedBlocks.add(match[1]);
+				}
+				await this.cachePageSlugs(block.content || "");
 
 				const uuids = Array.from((block.content || "").matchAll(uuidPattern))
 					.map((m) => m[0])
@@ -692,11 +2950,79 @@ export class MarkdownExporter {
 		}
 	}
 
+	// Looks up the pages linked as [[Page]] so links to them use their slug property
+	private async cachePageSlugs(content: string): Promise<void> {
+		for (const token of MarkdownHelpers.tokenize(content)) {
+			if (token.type !== "text") continue;
+			for (const match of token.value.matchAll(/(^|[^#])\[\[([^\]]+)\]\]/g)) {
+				const name = match[2].trim();
+				// [[uuid]] refs are looked up by preCacheUuid
+				if (!name || MarkdownHelpers.isUuid(name) || this.slugLookups.has(name.toLowerCase())) {
+					continue;
+				}
+				this.slugLookups.add(name.toLowerCase());
+				try {
+					const page = await this.logseqAPI.getPage(name);
+					if (page) this.recordPageSlug(page);
+				} catch {
+					// Intentionally swallow error - links fall back to the slugified name
+				}
+			}
+		}
+	}
+
+	private recordPageSlug(
+		page: BlockEntity | PageEntity | Record<string, unknown>,
+		name?: string,
+	): void {
+		const pageName = name ?? (page as PageEntity).name;
+		const slug = MarkdownHelpers.slugProperty(page);
+		if (pageName && slug) this.pageSlugs[String(pageName).toLowerCase()] = slug;
+	}
+
+	private markExcluded(block: BlockEntity): void {
+		if (!block?.uuid) return;
+		this.excludedBlocks.add(block.uuid);
+		for (const child of (block.children ?? []) as BlockEntity[]) this.markExcluded(child);
+	}
+
+	/**
+	 * Whether a block outside the exported tree is excluded, by itself, through an
+	 * ancestor or through its page. Excluded blocks are remembered.
+	 */
+	private async isExcludedBlock(block: BlockEntity): Promise<boolean> {
+		if (this.excludedBlocks.has(block.uuid)) return true;
+
+		const seen = new Set<unknown>();
+		let current: BlockEntity | PageEntity | null = block;
+		while (current) {
+			if (MarkdownHelpers.isExcluded(current, this.excludeTag)) {
+				this.excludedBlocks.add(block.uuid);
+				return true;
+			}
+			const parentId: number | undefined = (current as BlockEntity).parent?.id;
+			if (parentId === undefined || seen.has(parentId)) break;
+			seen.add(parentId);
+			try {
+				current =
+					parentId === (current as BlockEntity).page?.id
+						? await this.logseqAPI.getPage(parentId)
+						: await this.logseqAPI.getBlock(parentId, { includeChildren: false });
+			} catch {
+				break;
+			}
+		}
+		return false;
+	}
+
+	// Only entities carrying the UUID are cached, as resolvePlainUuids trusts the cache
 	private async preCacheUuid(uuid: string): Promise<void> {
 		try {
 			const page = await this.logseqAPI.getPage(uuid);
-			if (page && "name" in page && page.name) {
+			if (page && "name" in page && page.name && MarkdownHelpers.extractUuid(page.uuid) === uuid) {
 				this.blockRefCache.set(uuid, String(page.name));
+				this.pageNames.set(uuid, String(page.name));
+				this.recordPageSlug(page);
 				return;
 			}
 		} catch {
@@ -705,7 +3031,8 @@ export class MarkdownExporter {
 
 		try {
 			const block = await this.logseqAPI.getBlock(uuid, { includeChildren: false });
-			if (block?.content) {
+			if (block?.content && MarkdownHelpers.extractUuid(block.uuid) === uuid) {
+				if (await this.isExcludedBlock(block)) return;
 				this.blockRefCache.set(uuid, block.content);
 			}
 		} catch {
@@ -715,8 +3042,11 @@ export class MarkdownExporter {
 
 	private async generateFrontmatter(
 		page: BlockEntity | PageEntity,
-		assetPath = "assets/",
+		opts: ExportOptions,
+		taskMetadata: TaskMetadata = {},
+		blocks: BlockEntity[] = [],
 	): Promise<string> {
+		const assetPath = opts.assetPath ?? "assets/";
 		try {
 			// Get the full page entity
 			let pageEntity = page;
@@ -726,37 +3056,53 @@ export class MarkdownExporter {
 				// Use original page if getPage fails
 			}
 
-			const frontmatter: Record<string, unknown> = {};
+			let frontmatter: Record<string, unknown> = {};
 
-			// Set default title and slug from page name
+			// Set default title and slug from page name; a slug property wins, as in file names
 			if ("name" in pageEntity && pageEntity.name) {
-				frontmatter.title = String(pageEntity.name);
-				frontmatter.slug = String(pageEntity.name)
-					.toLowerCase()
-					.replace(/\s+/g, "-")
-					.replace(/[^a-z0-9-]/g, "");
+				const name = String(pageEntity.name);
+				frontmatter.title = name;
+				const slug = MarkdownHelpers.getPageSlug(pageEntity, name, opts.pathStrategy);
+				if (slug) frontmatter.slug = slug;
+
+				const ancestors =
+					opts.pathStrategy === "namespace" ? MarkdownHelpers.namespaceAncestors(name) : [];
+				if (ancestors.length > 0) {
+					frontmatter.parent = ancestors[ancestors.length - 1];
+					frontmatter.breadcrumbs = ancestors;
+				}
 			}
 
-			// Query for property name mappings (db ident -> clean display name)
+			// Query for property name mappings (db ident -> clean display name) and schemas
 			const propertyNameMap = new Map<string, string>();
+			const propertySchemas = new Map<string, PropertySchema>();
 			try {
 				const query = `
-          [:find ?prop-key ?prop-title
+          [:find ?prop-key ?prop-title ?prop-type ?prop-cardinality
            :where
            [?prop-entity :db/ident ?prop-key]
            [?prop-entity :block/title ?prop-title]
            [(namespace ?prop-key) ?ns]
-           [(= ?ns "user.property")]]
+           [(= ?ns "user.property")]
+           [(get-else $ ?prop-entity :logseq.property/type :default) ?prop-type]
+           [(get-else $ ?prop-entity :db/cardinality :db.cardinality/one) ?prop-cardinality]]
         `;
 				const results = await this.logseqAPI.datascriptQuery(query);
-				for (const [propKey, propTitle] of results) {
+				for (const [propKey, propTitle, propType, propCardinality] of results) {
 					if (typeof propKey === "string" && typeof propTitle === "string") {
+						// Keywords may come back with or without their leading colon
+						const schema: PropertySchema = {
+							type: String(propType ?? "default").replace(/^:/, ""),
+							many: String(propCardinality ?? "").endsWith("many"),
+						};
 						// DataScript returns idents with colons like ":user.property/title-abc123"
 						// Store both with and without colon for lookup flexibility
 						propertyNameMap.set(propKey, propTitle);
+						propertySchemas.set(propKey, schema);
 						// If key already has colon, also store without colon
 						if (propKey.startsWith(":")) {
 							propertyNameMap.set(propKey.slice(1), propTitle);
+							propertySchemas.set(propKey.slice(1), schema);
 						}
 					}
 				}
@@ -843,22 +3189,221 @@ export class MarkdownExporter {
 						continue;
 					}
 
-					// Process and add the property
-					if (!frontmatter[cleanKey] || cleanKey === "title") {
+					// Process and add the property; title and slug properties replace the defaults
+					if (!frontmatter[cleanKey] || cleanKey === "title" || cleanKey === "slug") {
 						this.debug(`Processing property ${key} -> ${cleanKey}`);
-						const processedValue = await this.processPropertyValue(value, assetPath);
+						const schema = propertySchemas.get(keyWithoutColon) ?? propertySchemas.get(key);
+						const processedValue = schema
+							? await this.processTypedPropertyValue(value, schema, assetPath)
+							: await this.processPropertyValue(value, assetPath);
 						frontmatter[cleanKey] = processedValue;
 					}
 				}
 			}
 
-			return Object.keys(frontmatter).length > 0 ? MarkdownHelpers.formatYaml(frontmatter) : "";
+			// Page aliases; an explicit aliases property wins
+			const aliases = await this.getPageAliases(pageEntity);
+			if (aliases.length > 0) {
+				if (frontmatter.aliases === undefined) frontmatter.aliases = aliases;
+				if (opts.aliasRedirects === "jekyll") {
+					frontmatter.redirect_from = aliases.map((alias) =>
+						MarkdownHelpers.pageUrl(
+							alias,
+							MarkdownHelpers.pageSlug(alias, opts.pathStrategy),
+							opts.linkTemplate,
+						),
+					);
+				}
+			}
+
+			// Task metadata lifted from a single-task export; explicit properties win
+			for (const [key, value] of Object.entries(taskMetadata)) {
+				if (!value || frontmatter[key] !== undefined) continue;
+				frontmatter[key] = key === "priority" ? value : new FrontmatterDate(value);
+			}
+
+			if (opts.deriveDates) {
+				for (const [key, value] of Object.entries(this.deriveDates(pageEntity, blocks, opts))) {
+					if (frontmatter[key] === undefined) frontmatter[key] = value;
+				}
+			}
+
+			frontmatter = MarkdownHelpers.applyFrontmatterMapping(
+				frontmatter,
+				opts.frontmatterMapping ?? {},
+			);
+
+			// Redaction comes last so a mapping can't bring a redacted property back
+			const redacted = new Set(
+				(opts.redactProperties ?? []).map((key) => key.trim().toLowerCase()),
+			);
+			for (const key of Object.keys(frontmatter)) {
+				if (redacted.has(key.toLowerCase())) delete frontmatter[key];
+			}
+
+			return Object.keys(frontmatter).length > 0
+				? MarkdownHelpers.formatFrontmatter(frontmatter, opts.frontmatterFormat ?? "yaml")
+				: "";
 		} catch (error) {
 			console.error("Error generating frontmatter:", error);
 			return "";
 		}
 	}
 
+	/**
+	 * Derives date from the journal day (or created-at) and lastmod from the
+	 * newest updated-at across the entity and its blocks.
+	 */
+	private deriveDates(
+		entity: BlockEntity | PageEntity,
+		blocks: BlockEntity[],
+		opts: ExportOptions,
+	): { date?: FrontmatterDate; lastmod?: FrontmatterDate } {
+		// An unknown zone falls back to the system zone rather than losing the frontmatter
+		const zone = opts.dateTimezone?.trim() ?? "";
+		const timeZone = zone && MarkdownHelpers.isTimeZone(zone) ? zone : "";
+		const format = opts.dateFormat || "YYYY-MM-DD";
+		const field = (source: unknown, camel: string, kebab: string): unknown => {
+			const record = source as Record<string, unknown>;
+			return record[camel] ?? record[kebab] ?? record[`:block/${kebab}`];
+		};
+
+		let updated = Number(field(entity, "updatedAt", "updated-at")) || 0;
+		const visit = (block: unknown) => {
+			if (!block || typeof block !== "object") return;
+			updated = Math.max(updated, Number(field(block, "updatedAt", "updated-at")) || 0);
+			for (const child of (block as BlockEntity).children ?? []) visit(child);
+		};
+		for (const block of blocks) visit(block);
+
+		const created = Number(field(entity, "createdAt", "created-at"));
+		const dateParts =
+			MarkdownHelpers.journalDateParts(field(entity, "journalDay", "journal-day"), timeZone) ??
+			(created > 0 ? MarkdownHelpers.zonedDateParts(created, timeZone) : null);
+
+		const derived: { date?: FrontmatterDate; lastmod?: FrontmatterDate } = {};
+		if (dateParts) {
+			derived.date = new FrontmatterDate(MarkdownHelpers.formatDateParts(dateParts, format));
+		}
+		if (updated > 0) {
+			derived.lastmod = new FrontmatterDate(
+				MarkdownHelpers.formatDateParts(MarkdownHelpers.zonedDateParts(updated, timeZone), format),
+			);
+		}
+		return derived;
+	}
+
+	/**
+	 * Names of a page's aliases, from DB-version logseq.property/alias refs or a
+	 * file-graph alias:: property.
+	 */
+	private async getPageAliases(page: BlockEntity | PageEntity): Promise<string[]> {
+		const entity = page as Record<string, unknown>;
+		const raw =
+			entity[":logseq.property/alias"] ??
+			entity.alias ??
+			(entity.properties as Record<string, unknown> | undefined)?.alias;
+		const values =
+			raw instanceof Set ? Array.from(raw) : Array.isArray(raw) ? raw : raw == null ? [] : [raw];
+
+		const aliases: string[] = [];
+		for (const value of values) {
+			if (typeof value === "string") {
+				aliases.push(
+					...value
+						.split(",")
+						.map((alias) => alias.trim().replace(/^\[\[(.*)\]\]$/, "$1"))
+						.filter(Boolean),
+				);
+				continue;
+			}
+
+			const ref = value as { id?: number; "db/id"?: number } | number | null;
+			const dbId = typeof ref === "number" ? ref : (ref?.["db/id"] ?? ref?.id);
+			if (typeof dbId !== "number") continue;
+			try {
+				const aliasPage = await this.logseqAPI.getPage(dbId);
+				const name =
+					aliasPage && "originalName" in aliasPage && aliasPage.originalName
+						? aliasPage.originalName
+						: aliasPage?.name;
+				if (name) aliases.push(String(name));
+			} catch {
+				// Skip unresolvable alias
+			}
+		}
+
+		return [...new Set(aliases)];
+	}
+
+	// One redirect page per alias at <alias-slug>/index.html, pointing at the page's URL
+	private async collectRedirectStubs(page: PageEntity, opts: ExportOptions): Promise<void> {
+		let pageEntity: BlockEntity | PageEntity = page;
+		try {
+			pageEntity = (await this.logseqAPI.getPage(page.uuid)) || page;
+		} catch {
+			// Use original page if getPage fails
+		}
+
+		const name = String(page.name ?? "");
+		const slug = MarkdownHelpers.getPageSlug(pageEntity, name, opts.pathStrategy);
+		const url = MarkdownHelpers.pageUrl(name, slug, opts.linkTemplate);
+
+		for (const alias of await this.getPageAliases(pageEntity)) {
+			const aliasSlug = MarkdownHelpers.pageSlug(alias, opts.pathStrategy);
+			if (!aliasSlug || aliasSlug === slug) continue;
+			this.redirectStubs.set(`${aliasSlug}/index.html`, MarkdownHelpers.redirectStub(url));
+		}
+	}
+
+	// Resolves a property value and gives it the type its schema declares, so
+	// dates become ISO dates rather than journal titles, numbers stay numbers
+	// and many-valued properties are always lists
+	private async processTypedPropertyValue(
+		value: unknown,
+		schema: PropertySchema,
+		assetPath: string,
+	): Promise<unknown> {
+		const items = value instanceof Set ? Array.from(value) : value;
+		let processed: unknown;
+
+		if (schema.type === "date") {
+			processed = Array.isArray(items)
+				? await Promise.all(items.map((item) => this.processDatePropertyValue(item, assetPath)))
+				: await this.processDatePropertyValue(items, assetPath);
+		} else if (schema.type === "datetime" || schema.type === "checkbox") {
+			// Stored inline rather than as references
+			processed = items;
+		} else {
+			processed = await this.processPropertyValue(items, assetPath);
+		}
+
+		processed = MarkdownHelpers.coercePropertyValue(processed, schema.type);
+		return schema.many && !Array.isArray(processed) ? [processed] : processed;
+	}
+
+	// Date properties reference journal pages; use the journal day rather than its title
+	private async processDatePropertyValue(value: unknown, assetPath: string): Promise<unknown> {
+		const dbId =
+			typeof value === "number"
+				? value
+				: value && typeof value === "object" && "db/id" in value
+					? (value["db/id"] as number)
+					: null;
+
+		if (dbId !== null) {
+			try {
+				const page = (await this.logseqAPI.getPage(dbId)) as Record<string, unknown> | null;
+				const iso = MarkdownHelpers.journalDayToIso(page?.journalDay ?? page?.["journal-day"]);
+				if (iso) return iso;
+			} catch {
+				// Fall back to the untyped value
+			}
+		}
+
+		return this.processPropertyValue(value, assetPath);
+	}
+
 	private async processPropertyValue(value: unknown, assetPath: string): Promise<unknown> {
 		if (typeof value === "string") {
 			const trimmed = value.trim();
@@ -1121,9 +3666,7 @@ export class MarkdownExporter {
 
 	// File operations
 	async downloadMarkdown(content: string, filename?: string): Promise<void> {
-		const currentPage = await this.logseqAPI.getCurrentPage();
-		const pageName = currentPage?.name || "export";
-		const safeFileName = filename || `${String(pageName).replace(/[^a-z0-9]/gi, "-")}.md`;
+		const safeFileName = filename || `${await this.currentPagePath()}.md`;
 
 		const blob = new Blob([content], { type: "text/markdown;charset=utf-8" });
 		const url = this.fileAPI.createObjectURL(blob);
@@ -1142,6 +3685,20 @@ export class MarkdownExporter {
 		}, 100);
 	}
 
+	// Where the current page's markdown file goes, named by its slug like in batch exports
+	private async currentPagePath(strategy: PathStrategy = "flat"): Promise<string> {
+		const currentPage = await this.logseqAPI.getCurrentPage();
+		if (!currentPage?.name) return "export";
+
+		let pageEntity: BlockEntity | PageEntity = currentPage;
+		try {
+			pageEntity = (await this.logseqAPI.getPage(currentPage.uuid)) || currentPage;
+		} catch {
+			// Use original page if getPage fails
+		}
+		return MarkdownHelpers.getPagePath(pageEntity, String(currentPage.name), strategy);
+	}
+
 	async copyToClipboard(content: string): Promise<void> {
 		try {
 			await this.fileAPI.writeToClipboard(content);
@@ -1152,13 +3709,20 @@ export class MarkdownExporter {
 		}
 	}
 
-	async downloadAsZip(content: string, filename?: string, assetPath = "assets/"): Promise<void> {
-		const currentPage = await this.logseqAPI.getCurrentPage();
-		const pageName = currentPage?.name || "export";
-		const safeFileName = filename || `${String(pageName).replace(/[^a-z0-9]/gi, "-")}`;
+	async downloadAsZip(
+		content: string,
+		filename?: string,
+		assetPath = "assets/",
+		pathStrategy: PathStrategy = "flat",
+	): Promise<void> {
+		const safeFileName = filename || (await this.currentPagePath());
+		const markdownPath = filename || (await this.currentPagePath(pathStrategy));
 
 		const zip = new JSZip();
-		zip.file(`${safeFileName}.md`, content);
+		zip.file(`${markdownPath}.md`, content);
+		for (const [path, html] of this.redirectStubs) {
+			zip.file(path, html);
+		}
 
 		let successCount = 0;
 		const failedAssets: string[] = [];
@@ -1264,31 +3828,65 @@ export class MarkdownExporter {
 		// Reset state
 		this.processedBlocks.clear();
 		this.blockRefCache.clear();
+		this.pageNames.clear();
+		this.exportedBlocks.clear();
+		this.referencedBlocks.clear();
+		this.anchoredBlocks.clear();
+		this.excludedBlocks.clear();
+		this.excludeTag = opts.excludeTag;
+		this.pageSlugs = {};
+		this.slugLookups.clear();
+		opts.pageSlugs = this.pageSlugs;
+		this.footnotes.clear();
+		this.embeddedChildren.clear();
+		this.embedDepths.clear();
+		this.querySnapshots.clear();
+		this.outlineFormats.clear();
 		this.referencedAssets.clear();
+		this.frontmatterTaskBlock = null;
+		this.uuidSubstitutions = [];
+		this.redirectStubs.clear();
 
 		// Fetch the block with all nested children
 		const blockWithChildren = await this.logseqAPI.getBlock(block.uuid, { includeChildren: true });
 		const blockToExport = blockWithChildren || block;
 
-		// Build markdown
-		let markdown = "";
-
 		// Generate frontmatter from block properties if requested
-		if (opts.includeProperties) {
-			const frontmatter = await this.generateFrontmatter(blockToExport, opts.assetPath);
-			if (frontmatter) {
-				markdown += frontmatter + "\n";
-			}
+		let frontmatter = "";
+		if (opts.includeProperties && opts.frontmatterFormat !== "none") {
+			const taskMetadata = await this.liftTaskMetadata([blockToExport], opts);
+			frontmatter = await this.generateFrontmatter(blockToExport, opts, taskMetadata, [
+				blockToExport,
+			]);
 		}
 
 		// Pre-cache references including all nested children
 		await this.cacheBlockReferences([blockToExport]);
+		// The focused block's own content isn't exported, so it can't be an anchor target
+		this.exportedBlocks.delete(blockToExport.uuid);
 
 		// Export only the children of the focused block, not the block's own title/content
-		markdown += await this.processChildren(blockToExport, 0, opts);
+		const nodes = await this.processChildren(blockToExport, 0, opts);
+
+		return this.serialize(frontmatter, nodes);
+	}
 
-		// Post-process markdown
-		return MarkdownHelpers.postProcessMarkdown(markdown);
+	// Renderer registry
+	/**
+	 * Registers a block renderer. A renderer with the same name as an existing
+	 * one (including the built-in "quote", "code" and "heading") replaces it.
+	 */
+	registerRenderer(renderer: BlockRenderer): void {
+		this.renderers.set(renderer.name, renderer);
+	}
+
+	unregisterRenderer(name: string): boolean {
+		return this.renderers.delete(name);
+	}
+
+	/** Registered renderers, highest priority first. */
+	getRenderers(): BlockRenderer[] {
+		return Array.from(this.renderers.values()).sort((a, b) => b.priority - a.priority);
 	}
 
 	// Public accessors
@@ -1299,6 +3897,11 @@ export class MarkdownExporter {
 	getGraphPath(): string {
 		return this.graphPath;
 	}
+
+	/** Plain UUIDs replaced during the last export, for showing what changed. */
+	getUuidSubstitutions(): UuidSubstitution[] {
+		return this.uuidSubstitutions;
+	}
 }
 
 export const exporter = new MarkdownExporter();
@@ -1,4 +1,31 @@
 import { SettingSchemaDesc } from "@logseq/libs/dist/LSPlugin";
+import {
+	ALIAS_REDIRECT_MODES,
+	AliasRedirectMode,
+	BLOCK_REF_MODES,
+	BlockRefMode,
+	CALLOUT_FORMATS,
+	CalloutFormat,
+	DEFAULT_INLINE_FORMATTING,
+	FRONTMATTER_FORMATS,
+	FrontmatterFormat,
+	FrontmatterMapping,
+	INLINE_CONSTRUCTS,
+	INLINE_STRATEGIES,
+	InlineFormatting,
+	InlineStrategy,
+	LINK_MODES,
+	LinkMode,
+	MarkdownHelpers,
+	PATH_STRATEGIES,
+	PathStrategy,
+	QUERY_RESULT_MODES,
+	QueryResultMode,
+	TASK_MARKER_MODES,
+	TASK_METADATA_MODES,
+	TaskMarkerMode,
+	TaskMetadataMode,
+} from "./markdownExporter";
 import { ExportSettings } from "./types";
 
 export const settingsSchema: SettingSchemaDesc[] = [
@@ -16,6 +43,14 @@ export const settingsSchema: SettingSchemaDesc[] = [
 		title: "Flatten Nested Blocks",
 		description: "Flatten nested blocks into paragraphs instead of maintaining indentation",
 	},
+	{
+		key: "smartOutline",
+		type: "boolean",
+		default: false,
+		title: "Smart Outline",
+		description:
+			"Keep heading blocks as headings, export the blocks under them as paragraphs and nest sibling blocks further down as lists. Overrides Flatten Nested Blocks; set blogseq-format:: list or paragraph on a block to choose for it",
+	},
 	{
 		key: "preserveBlockRefs",
 		type: "boolean",
@@ -37,6 +72,206 @@ export const settingsSchema: SettingSchemaDesc[] = [
 		title: "Asset Path",
 		description: "Relative path to use for asset references in the exported markdown",
 	},
+	{
+		key: "taskMarkers",
+		type: "enum",
+		default: "strip",
+		title: "Task Markers",
+		description:
+			"How TODO/DOING/DONE markers and task statuses are exported: strip them, render GFM checkboxes (- [ ] / - [x]), prefix an emoji, or keep them verbatim",
+		enumChoices: [...TASK_MARKER_MODES],
+		enumPicker: "select",
+	},
+	{
+		key: "taskMetadata",
+		type: "enum",
+		default: "strip",
+		title: "Task Priority & Dates",
+		description:
+			"How task priorities and SCHEDULED/DEADLINE dates are exported: strip them, or render inline badges such as **Priority A** and 📅 2026-10-19",
+		enumChoices: [...TASK_METADATA_MODES],
+		enumPicker: "select",
+	},
+	{
+		key: "taskMetadataFrontmatter",
+		type: "boolean",
+		default: false,
+		title: "Task Metadata in Frontmatter",
+		description:
+			"When the export is a single task block, put its priority, scheduled and deadline into the frontmatter instead",
+	},
+	{
+		key: "linkMode",
+		type: "enum",
+		default: "plain",
+		title: "Page Links",
+		description:
+			"How [[Page]] references are exported: plain text, relative links to page-slug.md, [[wiki links]] for Obsidian/Quartz, or links built from the URL template below",
+		enumChoices: [...LINK_MODES],
+		enumPicker: "select",
+	},
+	{
+		key: "linkTemplate",
+		type: "string",
+		default: "/{slug}/",
+		title: "Page Link URL Template",
+		description:
+			"URL used when Page Links is set to template. {slug} is replaced with the page slug and {name} with the URL-encoded page name",
+	},
+	{
+		key: "blockRefMode",
+		type: "enum",
+		default: "inline",
+		title: "Block References",
+		description:
+			"How ((block)) references are exported: inline the referenced text, cite it in a footnote with its source page, or link to the block when it is on the exported page",
+		enumChoices: [...BLOCK_REF_MODES],
+		enumPicker: "select",
+	},
+	{
+		key: "maxEmbedDepth",
+		type: "number",
+		default: 3,
+		title: "Maximum Embed Depth",
+		description:
+			"How many levels of {{embed}} macros inside embedded pages and blocks are transcluded. Set to 0 to leave embeds out",
+	},
+	{
+		key: "queryResults",
+		type: "enum",
+		default: "strip",
+		title: "Query Results",
+		description:
+			"How {{query}} macros and advanced queries are exported: strip them, or run them and freeze the results as a list of links or a table of properties",
+		enumChoices: [...QUERY_RESULT_MODES],
+		enumPicker: "select",
+	},
+	{
+		key: "calloutFormat",
+		type: "enum",
+		default: "github",
+		title: "Callout Format",
+		description:
+			"Syntax for #+BEGIN_NOTE/TIP/IMPORTANT/WARNING/CAUTION blocks and DB callouts: GitHub alerts, Docusaurus/VitePress ::: containers, Obsidian callouts, Hugo callout shortcodes, or keep them as they are",
+		enumChoices: [...CALLOUT_FORMATS],
+		enumPicker: "select",
+	},
+	{
+		key: "highlightFormat",
+		type: "enum",
+		default: DEFAULT_INLINE_FORMATTING.highlight,
+		title: "Highlights",
+		description:
+			"Export ==highlights== and ^^highlights^^ as HTML <mark>, markdown bold, or keep them",
+		enumChoices: [...INLINE_STRATEGIES],
+		enumPicker: "select",
+	},
+	{
+		key: "orgLinkFormat",
+		type: "enum",
+		default: DEFAULT_INLINE_FORMATTING.orgLink,
+		title: "Org-style Links",
+		description: "Export [[url][label]] links as HTML <a> tags, markdown links, or keep them",
+		enumChoices: [...INLINE_STRATEGIES],
+		enumPicker: "select",
+	},
+	{
+		key: "hiccupFormat",
+		type: "enum",
+		default: DEFAULT_INLINE_FORMATTING.hiccup,
+		title: "Inline Hiccup",
+		description:
+			'Export inline hiccup such as [:span {:class "red"} "text"] as HTML elements, markdown text, or keep it',
+		enumChoices: [...INLINE_STRATEGIES],
+		enumPicker: "select",
+	},
+	{
+		key: "clozeFormat",
+		type: "enum",
+		default: DEFAULT_INLINE_FORMATTING.cloze,
+		title: "Cloze",
+		description: "Export {{cloze answer}} macros as HTML <mark>, markdown bold, or keep them",
+		enumChoices: [...INLINE_STRATEGIES],
+		enumPicker: "select",
+	},
+	{
+		key: "frontmatterFormat",
+		type: "enum",
+		default: "yaml",
+		title: "Frontmatter Format",
+		description:
+			"Format of the frontmatter written when Include Properties is on: YAML (---), TOML (+++, Hugo), JSON (---json, Eleventy), or none",
+		enumChoices: [...FRONTMATTER_FORMATS],
+		enumPicker: "select",
+	},
+	{
+		key: "frontmatterMapping",
+		type: "string",
+		default: "",
+		title: "Frontmatter Mapping",
+		description:
+			'JSON that reshapes the frontmatter, e.g. {"rename": {"publish-date": "date", "wip": "draft"}, "drop": ["slug"], "defaults": {"draft": false}, "static": {"layout": "post"}, "order": ["title", "date"]}. Invalid JSON is ignored',
+		inputAs: "textarea",
+	},
+	{
+		key: "deriveDates",
+		type: "boolean",
+		default: false,
+		title: "Derive Dates",
+		description:
+			"Add date (from the journal day, or when the page was created) and lastmod (the newest block edit) to the frontmatter unless a property already sets them",
+	},
+	{
+		key: "dateTimezone",
+		type: "string",
+		default: "",
+		title: "Date Time Zone",
+		description:
+			"IANA time zone for derived dates, e.g. Europe/Berlin or UTC. Leave empty to use this computer's time zone",
+	},
+	{
+		key: "dateFormat",
+		type: "string",
+		default: "YYYY-MM-DD",
+		title: "Date Format",
+		description:
+			"Format of derived dates using YYYY, MM, DD, HH, mm, ss and Z (UTC offset), e.g. YYYY-MM-DDTHH:mm:ssZ",
+	},
+	{
+		key: "pathStrategy",
+		type: "enum",
+		default: "flat",
+		title: "Namespace Paths",
+		description:
+			"flat: docs/guides/setup is exported as docs-guides-setup.md. namespace: each namespace becomes a folder in the ZIP (docs/guides/setup.md), asset links point back up to the assets folder and the frontmatter gets parent and breadcrumbs",
+		enumChoices: [...PATH_STRATEGIES],
+		enumPicker: "select",
+	},
+	{
+		key: "aliasRedirects",
+		type: "enum",
+		default: "none",
+		title: "Alias Redirects",
+		description:
+			"Keep a page's aliases working as URLs: html adds a meta-refresh page per alias to the ZIP (at the alias slug), jekyll adds redirect_from to the frontmatter. Aliases are always listed under aliases when Include Properties is on",
+		enumChoices: [...ALIAS_REDIRECT_MODES],
+		enumPicker: "select",
+	},
+	{
+		key: "excludeTag",
+		type: "string",
+		default: "private",
+		title: "Exclude Tag",
+		description:
+			"Blocks with this tag (or blogseq-exclude:: true) are left out of exports together with their children; a page with it can't be exported. Leave empty to only use the property",
+	},
+	{
+		key: "redactProperties",
+		type: "string",
+		default: "",
+		title: "Redacted Properties",
+		description: "Comma-separated property names that are never written to the frontmatter",
+	},
 	{
 		key: "debug",
 		type: "boolean",
@@ -47,6 +282,37 @@ export const settingsSchema: SettingSchemaDesc[] = [
 	},
 ];
 
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+	Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// Keeps the well-formed parts of the JSON mapping setting
+function parseFrontmatterMapping(value: unknown): FrontmatterMapping {
+	if (typeof value !== "string" || !value.trim()) return {};
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(value);
+	} catch {
+		return {};
+	}
+	if (!isRecord(parsed)) return {};
+
+	const mapping: FrontmatterMapping = {};
+	if (isRecord(parsed.rename)) {
+		mapping.rename = Object.fromEntries(
+			Object.entries(parsed.rename).filter(([, to]) => typeof to === "string"),
+		) as Record<string, string>;
+	}
+	if (isStringArray(parsed.drop)) mapping.drop = parsed.drop;
+	if (isRecord(parsed.defaults)) mapping.defaults = parsed.defaults;
+	if (isRecord(parsed.static)) mapping.static = parsed.static;
+	if (isStringArray(parsed.order)) mapping.order = parsed.order;
+	return mapping;
+}
+
 export function getExportSettings(): ExportSettings {
 	const settings = (logseq.settings || {}) as Record<string, unknown>;
 	return {
@@ -59,6 +325,73 @@ export function getExportSettings(): ExportSettings {
 		includeProperties:
 			settings["includeProperties"] !== undefined ? Boolean(settings["includeProperties"]) : true,
 		assetPath: typeof settings["assetPath"] === "string" ? settings["assetPath"] : "assets/",
+		taskMarkers: TASK_MARKER_MODES.includes(settings["taskMarkers"] as TaskMarkerMode)
+			? (settings["taskMarkers"] as TaskMarkerMode)
+			: "strip",
+		taskMetadata: TASK_METADATA_MODES.includes(settings["taskMetadata"] as TaskMetadataMode)
+			? (settings["taskMetadata"] as TaskMetadataMode)
+			: "strip",
+		taskMetadataFrontmatter: Boolean(settings["taskMetadataFrontmatter"]),
+		linkMode: LINK_MODES.includes(settings["linkMode"] as LinkMode)
+			? (settings["linkMode"] as LinkMode)
+			: "plain",
+		linkTemplate:
+			typeof settings["linkTemplate"] === "string" && settings["linkTemplate"].trim()
+				? settings["linkTemplate"]
+				: "/{slug}/",
+		blockRefMode: BLOCK_REF_MODES.includes(settings["blockRefMode"] as BlockRefMode)
+			? (settings["blockRefMode"] as BlockRefMode)
+			: "inline",
+		maxEmbedDepth:
+			Number.isInteger(settings["maxEmbedDepth"]) && Number(settings["maxEmbedDepth"]) >= 0
+				? Number(settings["maxEmbedDepth"])
+				: 3,
+		queryResults: QUERY_RESULT_MODES.includes(settings["queryResults"] as QueryResultMode)
+			? (settings["queryResults"] as QueryResultMode)
+			: "strip",
+		smartOutline: Boolean(settings["smartOutline"]),
+		calloutFormat: CALLOUT_FORMATS.includes(settings["calloutFormat"] as CalloutFormat)
+			? (settings["calloutFormat"] as CalloutFormat)
+			: "github",
+		inlineFormatting: Object.fromEntries(
+			INLINE_CONSTRUCTS.map((construct) => {
+				const strategy = settings[`${construct}Format`] as InlineStrategy;
+				return [
+					construct,
+					INLINE_STRATEGIES.includes(strategy) ? strategy : DEFAULT_INLINE_FORMATTING[construct],
+				];
+			}),
+		) as InlineFormatting,
+		frontmatterFormat: FRONTMATTER_FORMATS.includes(
+			settings["frontmatterFormat"] as FrontmatterFormat,
+		)
+			? (settings["frontmatterFormat"] as FrontmatterFormat)
+			: "yaml",
+		frontmatterMapping: parseFrontmatterMapping(settings["frontmatterMapping"]),
+		deriveDates: Boolean(settings["deriveDates"]),
+		dateTimezone:
+			typeof settings["dateTimezone"] === "string" &&
+			MarkdownHelpers.isTimeZone(settings["dateTimezone"].trim())
+				? settings["dateTimezone"].trim()
+				: "",
+		dateFormat:
+			typeof settings["dateFormat"] === "string" && settings["dateFormat"].trim()
+				? settings["dateFormat"].trim()
+				: "YYYY-MM-DD",
+		pathStrategy: PATH_STRATEGIES.includes(settings["pathStrategy"] as PathStrategy)
+			? (settings["pathStrategy"] as PathStrategy)
+			: "flat",
+		aliasRedirects: ALIAS_REDIRECT_MODES.includes(settings["aliasRedirects"] as AliasRedirectMode)
+			? (settings["aliasRedirects"] as AliasRedirectMode)
+			: "none",
+		excludeTag: typeof settings["excludeTag"] === "string" ? settings["excludeTag"] : "private",
+		redactProperties:
+			typeof settings["redactProperties"] === "string"
+				? settings["redactProperties"]
+						.split(",")
+						.map((key) => key.trim())
+						.filter(Boolean)
+				: [],
 		debug: settings["debug"] !== undefined ? Boolean(settings["debug"]) : false,
 	};
 }
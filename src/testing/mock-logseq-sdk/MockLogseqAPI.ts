@@ -62,6 +62,7 @@ export interface MockLogseqState {
 export class MockLogseqAPI implements LogseqAPI {
 	private state: MockLogseqState;
 	private queryPatterns: DataScriptQueryPattern[] = [];
+	private simpleQueryResponses: Map<string, unknown[]> = new Map();
 	private errorSimulations: Map<keyof LogseqAPI, ErrorSimulation> = new Map();
 	private timingSimulations: Map<keyof LogseqAPI, TimingSimulation> = new Map();
 	private queryHistory: Array<{ query: string; result: unknown[][]; timestamp: number }> = [];
@@ -77,6 +78,7 @@ export class MockLogseqAPI implements LogseqAPI {
 		getPageBlocksTree: [] as string[],
 		getCurrentGraph: [] as unknown[],
 		datascriptQuery: [] as string[],
+		q: [] as string[],
 		showMsg: [] as Array<{ message: string; type: "success" | "error" | "warning" }>,
 	};
 
@@ -376,6 +378,18 @@ export class MockLogseqAPI implements LogseqAPI {
 		});
 	}
 
+	/**
+	 * Execute a simple query
+	 */
+	async q(query: string): Promise<unknown[] | null> {
+		this.calls.q.push(query);
+
+		return this.handleMethodSimulation(
+			"q",
+			() => this.simpleQueryResponses.get(query.trim()) ?? [],
+		);
+	}
+
 	/**
 	 * Show a message to the user
 	 */
@@ -573,6 +587,14 @@ export class MockLogseqAPI implements LogseqAPI {
 		return this;
 	}
 
+	/**
+	 * Add a simple query response for exact query match
+	 */
+	addSimpleQueryResponse(query: string, response: unknown[]): this {
+		this.simpleQueryResponses.set(query.trim(), response);
+		return this;
+	}
+
 	/**
 	 * Reset all state with optional seed
 	 */
@@ -647,6 +669,7 @@ export class MockLogseqAPI implements LogseqAPI {
 			getPageBlocksTree: [],
 			getCurrentGraph: [],
 			datascriptQuery: [],
+			q: [],
 			showMsg: [],
 		};
 		return this;
@@ -38,6 +38,7 @@ export const createMockLogseqContext = () => {
 		},
 		DB: {
 			datascriptQuery: vi.fn(),
+			q: vi.fn(),
 		},
 		UI: {
 			showMsg: vi.fn(),
@@ -47,7 +47,7 @@ describe("ZIP Content Tests", () => {
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
 
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 			expect(content).toBeDefined();
 			expect(content).toContain("This is a simple block of text");
 		});
@@ -67,7 +67,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			expect(content).toContain("**Bold text**");
 			expect(content).toContain("*italic text*");
@@ -100,7 +100,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			expect(content).toContain("First block");
 			expect(content).toContain("Second block");
@@ -120,7 +120,7 @@ describe("ZIP Content Tests", () => {
 			const allMarkdown = await extractAllMarkdownFromZip(zip);
 
 			expect(allMarkdown).toHaveLength(1);
-			expect(allMarkdown[0].filename).toBe("Simple-Page.md");
+			expect(allMarkdown[0].filename).toBe("simple-page.md");
 			expect(allMarkdown[0].content).toContain("This is a simple block");
 		});
 	});
@@ -141,7 +141,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Page-With-Properties.md");
+			const content = await extractMarkdownFromZip(zip, "page-with-properties.md");
 
 			expect(content).toContain("---");
 			expect(content).toContain("title:");
@@ -158,7 +158,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Page-With-Properties.md");
+			const content = await extractMarkdownFromZip(zip, "page-with-properties.md");
 
 			// Should not start with frontmatter
 			expect(content.trim().startsWith("---")).toBe(false);
@@ -177,7 +177,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Page-With-Properties.md");
+			const content = await extractMarkdownFromZip(zip, "page-with-properties.md");
 
 			expect(content).toContain("tags:");
 			// Tags should be in YAML array format
@@ -196,7 +196,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			expect(content).toContain("# Simple Page");
 		});
@@ -211,7 +211,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			// Should not have H1 with page name
 			expect(content).not.toContain("# Simple Page\n");
@@ -245,7 +245,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Page-With-Assets.md");
+			const content = await extractMarkdownFromZip(zip, "page-with-assets.md");
 
 			// Path should be relative to markdown file
 			expect(content).toContain("assets/");
@@ -277,7 +277,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Page-With-Assets.md");
+			const content = await extractMarkdownFromZip(zip, "page-with-assets.md");
 
 			// Should use ![alt](path) syntax for images
 			expect(content).toMatch(/!\[.*\]\(assets\/.+\.png\)/);
@@ -308,7 +308,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Page-With-Assets.md");
+			const content = await extractMarkdownFromZip(zip, "page-with-assets.md");
 
 			// Should use [text](path) syntax (no !) for non-images
 			expect(content).toMatch(/\[My PDF\]\(assets\/.+\.pdf\)/);
@@ -340,7 +340,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Page-With-Assets.md");
+			const content = await extractMarkdownFromZip(zip, "page-with-assets.md");
 
 			expect(content).toContain("[Important Document]");
 		});
@@ -371,7 +371,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			// Should be paragraphs, not indented list items
 			expect(content).toContain("Parent block");
@@ -403,7 +403,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			// Note: Current implementation doesn't add list formatting when flattenNested: false
 			expect(content).toContain("Parent block");
@@ -428,7 +428,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			expect(content).toContain("## Section Title");
 		});
@@ -462,7 +462,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			expect(content).toContain("# Main Title");
 			expect(content).toContain("## Subtitle");
@@ -486,7 +486,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			expect(content).toContain("日本語");
 			expect(content).toContain("中文");
@@ -509,7 +509,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			expect(content).toContain("`code`");
 			expect(content).toContain("**bold**");
@@ -532,7 +532,7 @@ describe("ZIP Content Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			expect(content).toContain("Line 1");
 			expect(content).toContain("Line 2");
@@ -237,7 +237,7 @@ describe("ZIP Error Handling Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			expect(content.length).toBeGreaterThan(10000);
 		});
@@ -301,7 +301,7 @@ describe("ZIP Error Handling Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			// Should not crash, may leave ref unresolved
 			expect(content).toBeDefined();
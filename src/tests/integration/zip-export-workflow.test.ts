@@ -69,7 +69,7 @@ describe("ZIP Export Workflow Tests", () => {
 			expect(savedFile!.filename).toMatch(/\.zip$/);
 
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Page-With-Properties.md");
+			const content = await extractMarkdownFromZip(zip, "page-with-properties.md");
 
 			// Verify all elements present
 			expect(content).toContain("---"); // Frontmatter
@@ -95,7 +95,7 @@ describe("ZIP Export Workflow Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			// Should be minimal markdown
 			expect(content.trim().startsWith("---")).toBe(false);
@@ -136,7 +136,7 @@ describe("ZIP Export Workflow Tests", () => {
 
 			// Verify structure
 			const isValid = await verifyZipStructure(zip, {
-				markdownFile: "Page-With-Assets.md",
+				markdownFile: "page-with-assets.md",
 				assetFolder: "assets/",
 				assetFiles: [`${TestUUIDs.imageAsset}.png`],
 			});
@@ -144,7 +144,7 @@ describe("ZIP Export Workflow Tests", () => {
 			expect(isValid).toBe(true);
 
 			// Verify content
-			const content = await extractMarkdownFromZip(zip, "Page-With-Assets.md");
+			const content = await extractMarkdownFromZip(zip, "page-with-assets.md");
 			expect(content).toContain("![My Image](assets/");
 		});
 	});
@@ -173,7 +173,7 @@ describe("ZIP Export Workflow Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			expect(content).toContain("Referenced content");
 		});
@@ -201,7 +201,7 @@ describe("ZIP Export Workflow Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			expect(content).toContain("Referenced Page");
 		});
@@ -231,7 +231,7 @@ describe("ZIP Export Workflow Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Page-With-Assets.md");
+			const content = await extractMarkdownFromZip(zip, "page-with-assets.md");
 
 			expect(content).toMatch(/!\[Asset Title\]\(assets\/.+\.png\)/);
 		});
@@ -263,7 +263,7 @@ describe("ZIP Export Workflow Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			expect(content).toContain("Parent");
 			expect(content).toContain("Child");
@@ -296,7 +296,7 @@ describe("ZIP Export Workflow Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Simple-Page.md");
+			const content = await extractMarkdownFromZip(zip, "simple-page.md");
 
 			// Note: Current implementation doesn't add list formatting when flattenNested: false
 			// It just outputs blocks without indentation markers
@@ -340,7 +340,7 @@ describe("ZIP Export Workflow Tests", () => {
 			await exporter.downloadAsZip(markdown);
 
 			const savedFile = mockFileAPI.getLastSavedFile();
-			expect(savedFile!.filename).toMatch(/Simple-Page\.zip$/);
+			expect(savedFile!.filename).toMatch(/simple-page\.zip$/);
 		});
 	});
 
@@ -435,7 +435,7 @@ describe("ZIP Export Workflow Tests", () => {
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
 
-			const content = await extractMarkdownFromZip(zip, "Page-With-Assets.md");
+			const content = await extractMarkdownFromZip(zip, "page-with-assets.md");
 			expect(content).toContain("media/");
 		});
 
@@ -464,7 +464,7 @@ describe("ZIP Export Workflow Tests", () => {
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
 
-			const content = await extractMarkdownFromZip(zip, "Page-With-Assets.md");
+			const content = await extractMarkdownFromZip(zip, "page-with-assets.md");
 			expect(content).toContain("files/");
 		});
 	});
@@ -555,7 +555,7 @@ describe("ZIP Export Workflow Tests", () => {
 
 			const savedFile = mockFileAPI.getLastSavedFile();
 			const zip = await readZipFromBlob(savedFile!.blob);
-			const content = await extractMarkdownFromZip(zip, "Empty-Page.md");
+			const content = await extractMarkdownFromZip(zip, "empty-page.md");
 
 			// Note: Current implementation doesn't add "No content found" message for empty pages
 			// It just outputs the page heading
@@ -6,6 +6,7 @@ import { MockFileAPI } from "../../testing/mock-logseq-sdk/MockFileAPI";
 import { MockLogseqAPI } from "../../testing/mock-logseq-sdk/MockLogseqAPI";
 import {
 	countZipFiles,
+	extractMarkdownFromZip,
 	getZipFilePaths,
 	getZipFolderPaths,
 	readZipFromBlob,
@@ -73,7 +74,7 @@ describe("ZIP Structure Tests", () => {
 			// Should have exactly one markdown file at root
 			const mdFiles = files.filter((f) => f.endsWith(".md") && !f.includes("/"));
 			expect(mdFiles).toHaveLength(1);
-			expect(mdFiles[0]).toBe("Simple-Page.md");
+			expect(mdFiles[0]).toBe("simple-page.md");
 		});
 
 		it("should create assets folder when assets are present", async () => {
@@ -205,7 +206,29 @@ describe("ZIP Structure Tests", () => {
 			const files = getZipFilePaths(zip);
 
 			const mdFile = files.find((f) => f.endsWith(".md"));
-			expect(mdFile).toBe("My-Test-Page.md");
+			expect(mdFile).toBe("my-test-page.md");
+		});
+
+		it("should name the files after the page's slug property", async () => {
+			const pageWithSlug = {
+				...SamplePages.simple,
+				name: "Über uns",
+				uuid: "test-slug-123",
+				properties: { slug: "about" },
+			};
+
+			mockAPI.addPage(pageWithSlug);
+			mockAPI.setCurrentPage(pageWithSlug);
+			mockAPI.setPageBlocksTree("test-slug-123", [SampleBlocks.simple]);
+
+			const markdown = await exporter.exportCurrentPage();
+			await exporter.downloadAsZip(markdown);
+
+			const savedFile = mockFileAPI.getLastSavedFile();
+			const zip = await readZipFromBlob(savedFile!.blob);
+
+			expect(getZipFilePaths(zip)).toContain("about.md");
+			expect(savedFile!.filename).toBe("about.zip");
 		});
 
 		it("should preserve UUID-based asset filenames", async () => {
@@ -311,7 +334,7 @@ describe("ZIP Structure Tests", () => {
 			const zip = await readZipFromBlob(savedFile!.blob);
 
 			const isValid = await verifyZipStructure(zip, {
-				markdownFile: "Simple-Page.md",
+				markdownFile: "simple-page.md",
 				minFiles: 1,
 				maxFiles: 1,
 			});
@@ -338,7 +361,7 @@ describe("ZIP Structure Tests", () => {
 			const zip = await readZipFromBlob(savedFile!.blob);
 
 			const isValid = await verifyZipStructure(zip, {
-				markdownFile: "Page-With-Assets.md",
+				markdownFile: "page-with-assets.md",
 				assetFolder: "assets/",
 				assetFiles: [`${TestUUIDs.imageAsset}.png`],
 				minFiles: 2,
@@ -380,7 +403,7 @@ describe("ZIP Structure Tests", () => {
 
 			// Expect assets that don't exist
 			const isValid = await verifyZipStructure(zip, {
-				markdownFile: "Simple-Page.md",
+				markdownFile: "simple-page.md",
 				assetFolder: "assets/",
 				assetFiles: ["nonexistent.png"],
 			});
@@ -430,4 +453,116 @@ describe("ZIP Structure Tests", () => {
 			expect(savedFile!.blob.size).toBeGreaterThan(0);
 		});
 	});
+
+	describe("Namespace paths", () => {
+		const namespacePage = {
+			...SamplePages.withAssets,
+			name: "docs/guides/setup",
+			originalName: "docs/guides/setup",
+		};
+
+		beforeEach(() => {
+			mockAPI.addPage(namespacePage);
+			mockAPI.setCurrentPage(namespacePage);
+
+			const blockWithAsset = {
+				...SampleBlocks.simple,
+				content: `Diagram: [[${TestUUIDs.imageAsset}]]`,
+			};
+			mockAPI.addBlock(blockWithAsset);
+			mockAPI.setPageBlocksTree(TestUUIDs.pageWithAssets, [blockWithAsset]);
+			setupAsset(TestUUIDs.imageAsset, "png", "Diagram");
+		});
+
+		it("should nest namespace pages in folders with assets linked from the root", async () => {
+			const markdown = await exporter.exportCurrentPage({ pathStrategy: "namespace" });
+			await exporter.downloadAsZip(markdown, undefined, "assets/", "namespace");
+
+			const zip = await readZipFromBlob(mockFileAPI.getLastSavedFile()!.blob);
+			const files = getZipFilePaths(zip);
+
+			expect(files).toContain("docs/guides/setup.md");
+			expect(files).toContain(`assets/${TestUUIDs.imageAsset}.png`);
+			expect(await extractMarkdownFromZip(zip, "docs/guides/setup.md")).toContain(
+				`](../../assets/${TestUUIDs.imageAsset}.png)`,
+			);
+			expect(mockFileAPI.getLastSavedFile()!.filename).toBe("docs-guides-setup.zip");
+		});
+
+		it("should link pages relative to the nested file", async () => {
+			const blockWithLink = { ...SampleBlocks.simple, content: "See [[docs/intro]]" };
+			mockAPI.setPageBlocksTree(TestUUIDs.pageWithAssets, [blockWithLink]);
+
+			const markdown = await exporter.exportCurrentPage({
+				pathStrategy: "namespace",
+				linkMode: "relative",
+			});
+
+			expect(markdown).toContain("[docs/intro](../../docs/intro.md)");
+		});
+
+		it("should keep one flat file by default", async () => {
+			const markdown = await exporter.exportCurrentPage();
+			await exporter.downloadAsZip(markdown);
+
+			const zip = await readZipFromBlob(mockFileAPI.getLastSavedFile()!.blob);
+
+			expect(getZipFilePaths(zip)).toContain("docs-guides-setup.md");
+			expect(markdown).toContain(`](assets/${TestUUIDs.imageAsset}.png)`);
+		});
+	});
+
+	describe("Alias redirects", () => {
+		const renamedPage = {
+			...SamplePages.simple,
+			name: "New Name",
+			properties: { alias: ["Old Name", "Legacy/Page"] },
+		};
+
+		beforeEach(() => {
+			mockAPI.addPage(renamedPage);
+			mockAPI.setCurrentPage(renamedPage);
+			mockAPI.setPageBlocksTree(TestUUIDs.simplePage, [SampleBlocks.simple]);
+		});
+
+		it("should add a redirect page per alias", async () => {
+			const markdown = await exporter.exportCurrentPage({ aliasRedirects: "html" });
+			await exporter.downloadAsZip(markdown);
+
+			const zip = await readZipFromBlob(mockFileAPI.getLastSavedFile()!.blob);
+			const files = getZipFilePaths(zip);
+
+			expect(files).toContain("new-name.md");
+			expect(files).toContain("old-name/index.html");
+			expect(files).toContain("legacy-page/index.html");
+			expect(await zip.file("old-name/index.html")!.async("string")).toContain(
+				'content="0; url=/new-name/"',
+			);
+		});
+
+		it("should follow the namespace path strategy and link template", async () => {
+			const markdown = await exporter.exportCurrentPage({
+				aliasRedirects: "html",
+				pathStrategy: "namespace",
+				linkTemplate: "/docs/{slug}.html",
+			});
+			await exporter.downloadAsZip(markdown, undefined, "assets/", "namespace");
+
+			const zip = await readZipFromBlob(mockFileAPI.getLastSavedFile()!.blob);
+
+			expect(getZipFilePaths(zip)).toContain("legacy/page/index.html");
+			expect(await zip.file("legacy/page/index.html")!.async("string")).toContain(
+				'href="/docs/new-name.html"',
+			);
+		});
+
+		it("should not add redirect pages by default", async () => {
+			const markdown = await exporter.exportCurrentPage();
+			await exporter.downloadAsZip(markdown);
+
+			const zip = await readZipFromBlob(mockFileAPI.getLastSavedFile()!.blob);
+
+			expect(getZipFilePaths(zip).filter((file) => file.endsWith(".html"))).toEqual([]);
+		});
+	});
 });
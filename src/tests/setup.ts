@@ -19,6 +19,7 @@ interface GlobalWithLogseq {
 	},
 	DB: {
 		datascriptQuery: vi.fn(),
+		q: vi.fn(),
 	},
 	UI: {
 		showMsg: vi.fn(),
@@ -12,6 +12,7 @@ export type MockLogseqAPI = {
 	getPageBlocksTree: Mock;
 	getCurrentGraph: Mock;
 	datascriptQuery: Mock;
+	q: Mock;
 	showMsg: Mock;
 	Editor: {
 		getCurrentPage: Mock;
@@ -21,7 +22,7 @@ export type MockLogseqAPI = {
 		getPageBlocksTree: Mock;
 	};
 	App: { getCurrentGraph: Mock };
-	DB: { datascriptQuery: Mock };
+	DB: { datascriptQuery: Mock; q: Mock };
 	UI: { showMsg: Mock };
 };
 
@@ -54,6 +55,7 @@ export const createMockLogseqAPI = (): MockLogseqAPI => {
 	const getPageBlocksTreeMock = vi.fn((uuid: string) => mockInstance.getPageBlocksTree(uuid));
 	const getCurrentGraphMock = vi.fn(() => mockInstance.getCurrentGraph());
 	const datascriptQueryMock = vi.fn((query: string) => mockInstance.datascriptQuery(query));
+	const qMock = vi.fn((query: string) => mockInstance.q(query));
 	const showMsgMock = vi.fn((msg: string, type: "success" | "error" | "warning") =>
 		mockInstance.showMsg(msg, type),
 	);
@@ -66,6 +68,7 @@ export const createMockLogseqAPI = (): MockLogseqAPI => {
 		getPageBlocksTree: getPageBlocksTreeMock,
 		getCurrentGraph: getCurrentGraphMock,
 		datascriptQuery: datascriptQueryMock,
+		q: qMock,
 		showMsg: showMsgMock,
 		Editor: {
 			getCurrentPage: getCurrentPageMock,
@@ -75,7 +78,7 @@ export const createMockLogseqAPI = (): MockLogseqAPI => {
 			getPageBlocksTree: getPageBlocksTreeMock,
 		},
 		App: { getCurrentGraph: getCurrentGraphMock },
-		DB: { datascriptQuery: datascriptQueryMock },
+		DB: { datascriptQuery: datascriptQueryMock, q: qMock },
 		UI: { showMsg: showMsgMock },
 	};
 
@@ -338,7 +338,7 @@ describe("useBatchExport hook", () => {
 			});
 
 			expect(mockZipInstance.file).toHaveBeenCalledWith(
-				"My Page.md",
+				"my-page.md",
 				expect.stringContaining("My Page"),
 			);
 		});
@@ -738,9 +738,41 @@ describe("useBatchExport hook", () => {
 
 			expect(results[0].success).toBe(true);
 			expect(mockZipInstance.file).toHaveBeenCalledWith(
-				"Page / With : Special * Chars.md",
+				"page-with-special-chars.md",
 				expect.any(String),
 			);
 		});
+
+		it("should name files by slug property and number duplicate slugs by page name", async () => {
+			const pages: Record<string, unknown> = {
+				"Café Notes": { uuid: "page-1", name: "Café Notes" },
+				"cafe notes": { uuid: "page-2", name: "cafe notes" },
+				About: { uuid: "page-3", name: "About", properties: { slug: "cafe-notes-2" } },
+			};
+			vi.mocked(logseq.Editor.getPage).mockImplementation(
+				async (name: unknown) => pages[name as string] as any,
+			);
+			vi.mocked(logseq.Editor.getPageBlocksTree).mockResolvedValue([
+				{ uuid: "block-1", content: "Content" },
+			] as any);
+
+			const { result } = renderHook(() => useBatchExport());
+			const fileNames = async (pageNames: string[]) => {
+				let results: any;
+				await act(async () => {
+					results = await result.current.exportPagesToZip(pageNames);
+				});
+				return Object.fromEntries(results.map((r: any) => [r.pageName, r.fileName]));
+			};
+
+			const expected = {
+				"Café Notes": "cafe-notes.md",
+				"cafe notes": "cafe-notes-3.md",
+				About: "cafe-notes-2.md",
+			};
+			expect(await fileNames(["cafe notes", "About", "Café Notes"])).toEqual(expected);
+			expect(await fileNames(["Café Notes", "cafe notes", "About"])).toEqual(expected);
+			expect(mockZipInstance.file).toHaveBeenCalledWith("cafe-notes-3.md", expect.any(String));
+		});
 	});
 });
@@ -1,6 +1,13 @@
-import type { BlockEntity } from "@logseq/libs/dist/LSPlugin";
+import type { BlockEntity, PageEntity } from "@logseq/libs/dist/LSPlugin";
+import type { List, ListItem } from "mdast";
 import { describe, expect, it } from "vitest";
-import { type ExportOptions, MarkdownHelpers } from "../../../markdownExporter";
+import { parse } from "yaml";
+import {
+	type ExportOptions,
+	FrontmatterDate,
+	type InlineFormatting,
+	MarkdownHelpers,
+} from "../../../markdownExporter";
 
 describe("MarkdownHelpers", () => {
 	describe("extractUuid", () => {
@@ -321,6 +328,366 @@ TODO Task 1
 		});
 	});
 
+	describe("tokenize", () => {
+		const types = (content: string) => MarkdownHelpers.tokenize(content).map((t) => t.type);
+
+		it("should round-trip content exactly", () => {
+			const content =
+				"Intro `code` and $x$\n```c\n#include <stdio.h>\n```\nSee https://a.com/#b and {{video x}}";
+			const joined = MarkdownHelpers.tokenize(content)
+				.map((t) => t.value)
+				.join("");
+			expect(joined).toBe(content);
+		});
+
+		it("should split out fenced code blocks", () => {
+			expect(types("Before\n```\ncode\n```\nAfter")).toEqual(["text", "fencedCode", "text"]);
+		});
+
+		it("should treat an unclosed fence as running to the end", () => {
+			const tokens = MarkdownHelpers.tokenize("Before\n~~~\n[[x]]");
+			expect(tokens[1]).toEqual({ type: "fencedCode", value: "~~~\n[[x]]" });
+		});
+
+		it("should split out display math blocks", () => {
+			expect(types("$$\na #b\n$$")).toEqual(["mathBlock"]);
+		});
+
+		it("should recognise inline constructs", () => {
+			expect(types("`a` $b$ {{c}} <https://d.io> [e](f.md) https://g.io")).toEqual([
+				"inlineCode",
+				"text",
+				"inlineMath",
+				"text",
+				"macro",
+				"text",
+				"autolink",
+				"text",
+				"linkDestination",
+				"text",
+				"url",
+			]);
+		});
+
+		it("should match inline code by backtick run length", () => {
+			const tokens = MarkdownHelpers.tokenize("``a ` b`` rest");
+			expect(tokens[0]).toEqual({ type: "inlineCode", value: "``a ` b``" });
+		});
+
+		it("should not treat currency amounts as math", () => {
+			expect(types("costs $5 or $10")).toEqual(["text"]);
+		});
+
+		it("should not include trailing punctuation in bare URLs", () => {
+			const tokens = MarkdownHelpers.tokenize("Visit https://example.com/page.");
+			expect(tokens[1]).toEqual({ type: "url", value: "https://example.com/page" });
+		});
+	});
+
+	describe("cleanLogseqSyntax - code awareness", () => {
+		const options: ExportOptions = { includeTags: false, removeLogseqSyntax: true };
+
+		it("should keep #hash in inline code", () => {
+			expect(MarkdownHelpers.cleanLogseqSyntax("Use `#include` here #tag", options)).toBe(
+				"Use `#include` here",
+			);
+		});
+
+		it("should keep URL fragments", () => {
+			expect(MarkdownHelpers.cleanLogseqSyntax("See https://a.com/docs#setup now", options)).toBe(
+				"See https://a.com/docs#setup now",
+			);
+		});
+
+		it("should keep fragments in link destinations and autolinks", () => {
+			expect(
+				MarkdownHelpers.cleanLogseqSyntax("[Setup](guide.md#setup) <https://a.com/#b>", options),
+			).toBe("[Setup](guide.md#setup) <https://a.com/#b>");
+		});
+
+		it("should leave fenced code untouched", () => {
+			const code = "```c\n#include <stdio.h>\nkey:: value\nTODO fix [[x]]\n\n\n\nend\n```";
+			expect(MarkdownHelpers.cleanLogseqSyntax(`Example:\n${code}`, options)).toBe(
+				`Example:\n${code}`,
+			);
+		});
+
+		it("should still clean text around fenced code", () => {
+			const result = MarkdownHelpers.cleanLogseqSyntax(
+				"TODO Read [[Page]]\n```sh\necho #1\n```\nDone #tag",
+				options,
+			);
+			expect(result).toBe("Read Page\n```sh\necho #1\n```\nDone");
+		});
+
+		it("should leave math untouched", () => {
+			expect(MarkdownHelpers.cleanLogseqSyntax("Area $\\#A = [[1]]$ done", options)).toBe(
+				"Area $\\#A = [[1]]$ done",
+			);
+		});
+
+		it("should remove query macros that contain URLs", () => {
+			expect(
+				MarkdownHelpers.cleanLogseqSyntax('A {{query (page "https://x.io")}} B', options),
+			).toBe("A  B");
+		});
+	});
+
+	describe("task markers", () => {
+		it("should split a marker off the start of the content", () => {
+			expect(MarkdownHelpers.parseTaskMarker("LATER Read book")).toEqual({
+				marker: "LATER",
+				content: "Read book",
+			});
+		});
+
+		it("should ignore markers that are not at the start", () => {
+			expect(MarkdownHelpers.parseTaskMarker("Read TODO list")).toBeNull();
+		});
+
+		it("should map status idents, titles and entities to markers", () => {
+			expect(MarkdownHelpers.statusToMarker(":logseq.property/status.in-review")).toBe("IN-REVIEW");
+			expect(MarkdownHelpers.statusToMarker("Done")).toBe("DONE");
+			expect(MarkdownHelpers.statusToMarker({ "db/ident": "logseq.property/status.todo" })).toBe(
+				"TODO",
+			);
+			expect(MarkdownHelpers.statusToMarker({ title: "Canceled" })).toBe("CANCELED");
+			expect(MarkdownHelpers.statusToMarker(12)).toBeNull();
+		});
+
+		it("should read status from the block entity", () => {
+			const block = {
+				properties: { "logseq.property/status": ":logseq.property/status.backlog" },
+			} as unknown as BlockEntity;
+			expect(MarkdownHelpers.getTaskStatus(block)).toBe("BACKLOG");
+		});
+
+		it("should keep markers when cleaning in non-strip modes", () => {
+			const options: ExportOptions = { removeLogseqSyntax: true, taskMarkers: "keep" };
+			expect(MarkdownHelpers.cleanLogseqSyntax("TODO a\nNOW b", options)).toBe("TODO a\nNOW b");
+		});
+	});
+
+	describe("task metadata", () => {
+		it("should extract priority and SCHEDULED/DEADLINE lines", () => {
+			const { metadata, content } = MarkdownHelpers.extractTaskMetadata(
+				"TODO [#B] Plan\nSCHEDULED: <2026-10-12 Mon .+1w>\nDEADLINE: <2026-10-19 Mon 09:30>\nNotes",
+			);
+			expect(metadata).toEqual({
+				priority: "B",
+				scheduled: "2026-10-12",
+				deadline: "2026-10-19 09:30",
+			});
+			expect(content).toBe("TODO Plan\nNotes");
+		});
+
+		it("should leave metadata inside inline code alone", () => {
+			const { metadata, content } = MarkdownHelpers.extractTaskMetadata("Use `[#A]` for priority");
+			expect(metadata).toEqual({});
+			expect(content).toBe("Use `[#A]` for priority");
+		});
+
+		it("should read closed value names from idents and titles", () => {
+			expect(MarkdownHelpers.getClosedValueName(":logseq.property/priority.urgent")).toBe("urgent");
+			expect(MarkdownHelpers.getClosedValueName({ "block/title": "Medium" })).toBe("Medium");
+			expect(MarkdownHelpers.getClosedValueName(3)).toBeNull();
+		});
+
+		it("should format timestamps with a time only when set", () => {
+			expect(MarkdownHelpers.formatTimestamp(new Date(2026, 0, 5).getTime())).toBe("2026-01-05");
+			expect(MarkdownHelpers.formatTimestamp(new Date(2026, 0, 5, 8, 15).getTime())).toBe(
+				"2026-01-05 08:15",
+			);
+		});
+
+		it("should place badges around the first line", () => {
+			expect(
+				MarkdownHelpers.formatTaskBadges("Plan\nNotes", { priority: "A", deadline: "2026-10-19" }),
+			).toBe("**Priority A** Plan 📅 2026-10-19\nNotes");
+		});
+	});
+
+	describe("page links", () => {
+		const options: ExportOptions = { removeLogseqSyntax: true, includeTags: true };
+
+		it("should slugify page names", () => {
+			expect(MarkdownHelpers.slugify("My Page: Draft!")).toBe("my-page-draft");
+		});
+
+		it("should transliterate accented Latin and Cyrillic", () => {
+			expect(MarkdownHelpers.slugify("Crème Brûlée à la Straße")).toBe("creme-brulee-a-la-strasse");
+			expect(MarkdownHelpers.slugify("Привет, мир")).toBe("privet-mir");
+			expect(MarkdownHelpers.slugify("Україна, Йошкар-Ола")).toBe("ukrayina-yoshkar-ola");
+		});
+
+		it("should keep letters of other scripts", () => {
+			expect(MarkdownHelpers.slugify("你好 世界")).toBe("你好-世界");
+			expect(MarkdownHelpers.slugify("ブログ の 記事")).toBe("ブログ-の-記事");
+			expect(MarkdownHelpers.slugify("한국어 페이지")).toBe("한국어-페이지");
+		});
+
+		it("should hyphenate namespace separators", () => {
+			expect(MarkdownHelpers.slugify("docs/guides/setup")).toBe("docs-guides-setup");
+		});
+
+		it("should collapse and trim separators", () => {
+			expect(MarkdownHelpers.slugify("  --Hello__World--  ")).toBe("hello-world");
+			expect(MarkdownHelpers.slugify("!!!")).toBe("");
+		});
+
+		it("should format links for each mode", () => {
+			expect(MarkdownHelpers.formatPageLink("Big Idea", {})).toBe("Big Idea");
+			expect(MarkdownHelpers.formatPageLink("Big Idea", { linkMode: "relative" })).toBe(
+				"[Big Idea](big-idea.md)",
+			);
+			expect(MarkdownHelpers.formatPageLink("Big Idea", { linkMode: "wikilink" }, "idea")).toBe(
+				"[[Big Idea|idea]]",
+			);
+			expect(
+				MarkdownHelpers.formatPageLink("Big Idea", {
+					linkMode: "template",
+					linkTemplate: "https://example.com/?p={name}",
+				}),
+			).toBe("[Big Idea](https://example.com/?p=Big%20Idea)");
+		});
+
+		it("should use the label of [label]([[Page]]) links", () => {
+			expect(MarkdownHelpers.cleanLogseqSyntax("Read [this]([[Big Idea]])", options)).toBe(
+				"Read this",
+			);
+			expect(
+				MarkdownHelpers.cleanLogseqSyntax("Read [this]([[Big Idea]])", {
+					...options,
+					linkMode: "relative",
+				}),
+			).toBe("Read [this](big-idea.md)");
+		});
+
+		it("should not turn #[[Tag]] into a link", () => {
+			expect(
+				MarkdownHelpers.cleanLogseqSyntax("Filed under #[[Big Idea]]", {
+					...options,
+					linkMode: "relative",
+				}),
+			).toBe("Filed under #Big Idea");
+		});
+	});
+
+	describe("extractEmbeds", () => {
+		it("should find page and block embeds in order", () => {
+			const uuid = "650e8400-e29b-41d4-a716-446655440000";
+			expect(
+				MarkdownHelpers.extractEmbeds(`{{embed ((${uuid}))}} and {{embed [[My Page]]}}`),
+			).toEqual([
+				{ type: "block", target: uuid },
+				{ type: "page", target: "My Page" },
+			]);
+		});
+
+		it("should ignore other macros and embeds in code", () => {
+			expect(
+				MarkdownHelpers.extractEmbeds("{{query (todo now)}}\n```\n{{embed [[X]]}}\n```"),
+			).toEqual([]);
+		});
+	});
+
+	describe("query snapshots", () => {
+		it("should find simple queries and take out advanced query blocks", () => {
+			const content =
+				'Open tasks {{query (task TODO)}}\n#+BEGIN_QUERY\n{:title "Recent"\n :query [:find (pull ?p [*]) :where [?p :block/name]]}\n#+END_QUERY\nEnd';
+			const { queries, content: rest } = MarkdownHelpers.extractQueries(content);
+
+			expect(queries).toEqual([
+				{ type: "simple", query: "(task TODO)" },
+				{ type: "datalog", query: "[:find (pull ?p [*]) :where [?p :block/name]]" },
+			]);
+			expect(rest).toBe("Open tasks {{query (task TODO)}}\nEnd");
+		});
+
+		it("should find query blocks whose EDN holds URLs, backticks and link syntax", () => {
+			const content =
+				'#+BEGIN_QUERY\n{:query [:find (pull ?b [*]) :where [?b :block/marker "TODO"]]\n :view (fn [r] [:a {:href "https://x.com"} "`see` ](x)"])}\n#+END_QUERY\nAfter {{query (page-tags blog)}}';
+			const { queries, content: rest } = MarkdownHelpers.extractQueries(content);
+
+			expect(queries).toEqual([
+				{ type: "datalog", query: '[:find (pull ?b [*]) :where [?b :block/marker "TODO"]]' },
+				{ type: "simple", query: "(page-tags blog)" },
+			]);
+			expect(rest).toBe("After {{query (page-tags blog)}}");
+		});
+
+		it("should ignore queries inside code", () => {
+			expect(MarkdownHelpers.extractQueries("`{{query (task TODO)}}`").queries).toEqual([]);
+		});
+
+		it("should read simple-language advanced queries", () => {
+			expect(MarkdownHelpers.parseAdvancedQuery('{:query (and [[project]] "]")}')).toEqual({
+				type: "simple",
+				query: '(and [[project]] "]")',
+			});
+			expect(MarkdownHelpers.parseAdvancedQuery('{:query "(page-tags blog)"}')).toEqual({
+				type: "simple",
+				query: "(page-tags blog)",
+			});
+			expect(MarkdownHelpers.parseAdvancedQuery('{:title "No query"}')).toBeNull();
+		});
+
+		it("should render pages as a list of links", () => {
+			const list = MarkdownHelpers.renderQueryResults(
+				[{ "block/original-name": "Alpha" }, { "original-name": "Beta" }],
+				"list",
+				{ linkMode: "relative" },
+			);
+			expect(MarkdownHelpers.toMarkdown({ type: "root", children: [list] })).toBe(
+				"- [Alpha](alpha.md)\n- [Beta](beta.md)",
+			);
+		});
+
+		it("should render a table with a column per property", () => {
+			const table = MarkdownHelpers.renderQueryResults(
+				[
+					{ content: "TODO Write [[intro]]", properties: { owner: "sam", tags: ["a", "b"] } },
+					{ content: "Review", properties: { status: "draft" } },
+				],
+				"table",
+				{ removeLogseqSyntax: true },
+			);
+			expect(MarkdownHelpers.toMarkdown({ type: "root", children: [table] })).toBe(
+				[
+					"| Block       | owner | tags | status |",
+					"| ----------- | ----- | ---- | ------ |",
+					"| Write intro | sam   | a, b |        |",
+					"| Review      |       |      | draft  |",
+				].join("\n"),
+			);
+		});
+
+		it("should escape pipes in table labels", () => {
+			const table = MarkdownHelpers.renderQueryResults(
+				[{ content: "x|y", properties: { a: "1", b: "2" } }],
+				"table",
+				{ removeLogseqSyntax: true },
+			);
+			expect(MarkdownHelpers.toMarkdown({ type: "root", children: [table] })).toBe(
+				["| Block | a | b |", "| ----- | - | - |", "| x\\|y  | 1 | 2 |"].join("\n"),
+			);
+
+			const pages = MarkdownHelpers.renderQueryResults([{ "original-name": "A|B" }], "table", {
+				linkMode: "relative",
+			});
+			expect(MarkdownHelpers.toMarkdown({ type: "root", children: [pages] })).toBe(
+				["| Page          |", "| ------------- |", "| [A\\|B](ab.md) |"].join("\n"),
+			);
+		});
+
+		it("should say when there are no results", () => {
+			const empty = MarkdownHelpers.renderQueryResults([], "list", {});
+			expect(MarkdownHelpers.toMarkdown({ type: "root", children: [empty] })).toBe(
+				"_No results found for the query._",
+			);
+		});
+	});
+
 	describe("processAssetPaths", () => {
 		it("should convert asset path with trailing slash", () => {
 			const content = "![image](../assets/test.png)";
@@ -462,6 +829,67 @@ More text`;
 		});
 	});
 
+	describe("groupListItems", () => {
+		const item = (value: string): ListItem => ({
+			type: "listItem",
+			spread: false,
+			children: [MarkdownHelpers.rawParagraph(value)],
+		});
+
+		it("should wrap consecutive list items in a single list", () => {
+			const grouped = MarkdownHelpers.groupListItems([item("a"), item("b")]);
+			expect(grouped).toHaveLength(1);
+			expect(grouped[0]).toMatchObject({ type: "list", ordered: false });
+			expect((grouped[0] as List).children).toHaveLength(2);
+		});
+
+		it("should start a new list after other content", () => {
+			const grouped = MarkdownHelpers.groupListItems([
+				item("a"),
+				MarkdownHelpers.rawParagraph("break"),
+				item("b"),
+			]);
+			expect(grouped.map((node) => node.type)).toEqual(["list", "paragraph", "list"]);
+		});
+
+		it("should merge adjacent lists", () => {
+			const list: List = { type: "list", ordered: false, spread: false, children: [item("b")] };
+			const grouped = MarkdownHelpers.groupListItems([item("a"), list]);
+			expect(grouped).toHaveLength(1);
+			expect((grouped[0] as List).children).toHaveLength(2);
+		});
+	});
+
+	describe("toMarkdown", () => {
+		it("should serialize raw paragraphs verbatim", () => {
+			const markdown = MarkdownHelpers.toMarkdown({
+				type: "root",
+				children: [MarkdownHelpers.rawParagraph("**bold** and [link](url)")],
+			});
+			expect(markdown).toBe("**bold** and [link](url)");
+		});
+
+		it("should separate blocks with a single blank line", () => {
+			const markdown = MarkdownHelpers.toMarkdown({
+				type: "root",
+				children: [
+					{ type: "heading", depth: 2, children: [{ type: "text", value: "Title" }] },
+					MarkdownHelpers.rawParagraph("Body"),
+					{ type: "code", lang: "ts", value: "const x = 1;" },
+				],
+			});
+			expect(markdown).toBe("## Title\n\nBody\n\n```ts\nconst x = 1;\n```");
+		});
+
+		it("should escape plain text nodes", () => {
+			const markdown = MarkdownHelpers.toMarkdown({
+				type: "root",
+				children: [{ type: "paragraph", children: [{ type: "text", value: "*not emphasis*" }] }],
+			});
+			expect(markdown).toBe("\\*not emphasis\\*");
+		});
+	});
+
 	describe("getHeadingLevel", () => {
 		it("should extract heading level from direct property", () => {
 			const block = { "logseq.property/heading": 1 } as unknown as BlockEntity;
@@ -632,6 +1060,511 @@ More text`;
 		});
 	});
 
+	describe("formatYaml - round trip", () => {
+		// Parses the document between the --- fences, as YAML 1.2 and as YAML 1.1
+		const roundTrip = (data: Record<string, unknown>) => {
+			const yaml = MarkdownHelpers.formatYaml(data);
+			const body = yaml.slice("---\n".length, -"---\n".length);
+			const parsed = parse(body);
+			expect(parse(body, { version: "1.1" })).toEqual(parsed);
+			return parsed;
+		};
+
+		it("should quote strings that would be read as other types", () => {
+			const data = {
+				answer: "yes",
+				off: "off",
+				nothing: "null",
+				tilde: "~",
+				version: "1.10",
+				zip: "02134",
+				hex: "0x1F",
+				time: "1:30",
+				infinity: ".inf",
+				empty: "",
+			};
+			expect(roundTrip(data)).toEqual(data);
+		});
+
+		it("should quote strings with YAML syntax in them", () => {
+			const data = {
+				title: "Logseq: the good parts",
+				trailing: "Note:",
+				comment: "C# and F# #1",
+				star: "*important*",
+				anchor: "&ref",
+				list: "[draft] notes",
+				map: "{not: a map}",
+				dash: "- item",
+				question: "? what",
+				quote: "'single' and \"double\"",
+				padded: "  spaced  ",
+				tab: "a\tb",
+			};
+			expect(roundTrip(data)).toEqual(data);
+		});
+
+		it("should keep safe strings and scalars plain", () => {
+			const yaml = MarkdownHelpers.formatYaml({
+				title: "My Title",
+				date: new FrontmatterDate("2024-01-15"),
+				url: "https://example.com/a?b=c#d",
+				count: 3,
+				ok: true,
+				none: null,
+			});
+			expect(yaml).toBe(
+				"---\ntitle: My Title\ndate: 2024-01-15\nurl: https://example.com/a?b=c#d\ncount: 3\nok: true\nnone: null\n---\n",
+			);
+		});
+
+		it("should quote date-shaped strings", () => {
+			const data = { title: "2024-01-15", at: "2024-02-03 07:15:00", short: "2024-1-5" };
+			const yaml = MarkdownHelpers.formatYaml(data);
+			const body = yaml.slice("---\n".length, -"---\n".length);
+
+			expect(yaml).toContain('title: "2024-01-15"\n');
+			expect(parse(body, { version: "1.1" })).toEqual(data);
+		});
+
+		it("should leave typed dates bare for YAML 1.1 parsers to read as timestamps", () => {
+			const yaml = MarkdownHelpers.formatYaml({
+				date: new FrontmatterDate("2024-01-15"),
+				lastmod: new FrontmatterDate("2024-02-03T07:15:00+09:00"),
+			});
+			const body = yaml.slice("---\n".length, -"---\n".length);
+
+			expect(parse(body, { version: "1.1" })).toEqual({
+				date: new Date("2024-01-15T00:00:00Z"),
+				lastmod: new Date("2024-02-02T22:15:00Z"),
+			});
+			expect(parse(body)).toEqual({
+				date: "2024-01-15",
+				lastmod: "2024-02-03T07:15:00+09:00",
+			});
+		});
+
+		it("should escape keys and array items", () => {
+			const data = { "key: with colon": ["yes", "#tag", "plain", "3"] };
+			expect(roundTrip(data)).toEqual(data);
+		});
+
+		it("should write nested maps and arrays of maps in block style", () => {
+			const data = {
+				author: { name: "Jane: Smith", links: { site: "https://jane.dev" } },
+				series: [
+					{ name: "Part 1", tags: ["a", "b"] },
+					{ name: "Part 2", meta: { draft: "no" } },
+				],
+				matrix: [
+					[1, 2],
+					[3, "4"],
+				],
+				empty: { list: [], map: {} },
+			};
+			const yaml = MarkdownHelpers.formatYaml(data);
+
+			expect(yaml).not.toContain("[object Object]");
+			expect(yaml).toContain("series:\n  - name: Part 1\n    tags:\n      - a\n");
+			expect(roundTrip(data)).toEqual(data);
+		});
+
+		it("should round-trip multi-line strings", () => {
+			const data = {
+				body: "Line 1\n\n  indented\nLast",
+				trailingNewline: "One\nTwo\n",
+				keep: "One\n\n\n",
+				leadingSpace: "  starts indented\nnext",
+				blankLines: "\n\n",
+				control: "bell\u0007\nline",
+				nested: [{ text: "a\nb" }],
+			};
+			expect(roundTrip(data)).toEqual(data);
+		});
+
+		it("should skip undefined values", () => {
+			expect(MarkdownHelpers.formatYaml({ title: "T", missing: undefined })).toBe(
+				"---\ntitle: T\n---\n",
+			);
+		});
+	});
+
+	describe("formatToml", () => {
+		it("should quote date-shaped strings", () => {
+			expect(
+				MarkdownHelpers.formatToml({
+					title: "2024-01-15",
+					at: "2024-01-16T09:30:00Z",
+					due: new FrontmatterDate("Someday"),
+				}),
+			).toBe('+++\ntitle = "2024-01-15"\nat = "2024-01-16T09:30:00Z"\ndue = "Someday"\n+++\n');
+		});
+
+		it("should write typed scalars between +++ fences", () => {
+			expect(
+				MarkdownHelpers.formatToml({
+					title: 'Logseq: "the good parts"',
+					date: new FrontmatterDate("2024-01-15"),
+					updated: new FrontmatterDate("2024-01-16T09:30:00Z"),
+					weight: 3,
+					price: 19.99,
+					draft: false,
+					tags: ["a", "b #c"],
+				}),
+			).toBe(
+				[
+					"+++",
+					'title = "Logseq: \\"the good parts\\""',
+					"date = 2024-01-15",
+					"updated = 2024-01-16T09:30:00Z",
+					"weight = 3",
+					"price = 19.99",
+					"draft = false",
+					'tags = ["a", "b #c"]',
+					"+++",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("should write nested maps as tables after the top-level keys", () => {
+			expect(
+				MarkdownHelpers.formatToml({
+					author: { name: "Jane", social: { site: "https://jane.dev" } },
+					title: "Post",
+				}),
+			).toBe(
+				[
+					"+++",
+					'title = "Post"',
+					"",
+					"[author]",
+					'name = "Jane"',
+					"",
+					"[author.social]",
+					'site = "https://jane.dev"',
+					"+++",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("should write arrays of maps as arrays of tables", () => {
+			expect(
+				MarkdownHelpers.formatToml({ series: [{ name: "Part 1" }, { name: "Part 2", part: 2 }] }),
+			).toBe(
+				[
+					"+++",
+					"[[series]]",
+					'name = "Part 1"',
+					"",
+					"[[series]]",
+					'name = "Part 2"',
+					"part = 2",
+					"+++",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("should quote keys, escape strings and use inline tables in mixed arrays", () => {
+			expect(
+				MarkdownHelpers.formatToml({
+					"page title": "Line 1\nLine 2\u007f",
+					mixed: [1, { a: "x" }, [true]],
+				}),
+			).toBe(
+				'+++\n"page title" = "Line 1\\nLine 2\\u007F"\nmixed = [1, { a = "x" }, [true]]\n+++\n',
+			);
+		});
+
+		it("should leave out null values, which TOML can't express", () => {
+			expect(MarkdownHelpers.formatToml({ title: "T", cover: null, list: [null, "x"] })).toBe(
+				'+++\ntitle = "T"\nlist = ["x"]\n+++\n',
+			);
+		});
+	});
+
+	describe("formatFrontmatter", () => {
+		const data = { title: "Post", date: "2024-01-15", tags: ["a"], author: { name: "Jane" } };
+
+		it("should write JSON between ---json and --- fences", () => {
+			const result = MarkdownHelpers.formatFrontmatter(data, "json");
+			expect(result).toMatch(/^---json\n\{\n {2}"title": "Post",/);
+			expect(result).toMatch(/\n\}\n---\n$/);
+			expect(JSON.parse(result.slice("---json\n".length, -"---\n".length))).toEqual(data);
+		});
+
+		it("should dispatch to the YAML and TOML writers", () => {
+			expect(MarkdownHelpers.formatFrontmatter(data, "yaml")).toBe(
+				MarkdownHelpers.formatYaml(data),
+			);
+			expect(MarkdownHelpers.formatFrontmatter(data, "toml")).toBe(
+				MarkdownHelpers.formatToml(data),
+			);
+		});
+
+		it("should write nothing for none", () => {
+			expect(MarkdownHelpers.formatFrontmatter(data, "none")).toBe("");
+		});
+	});
+
+	describe("redirects", () => {
+		it("should fill in link templates", () => {
+			expect(MarkdownHelpers.pageUrl("Old Name", "old-name")).toBe("/old-name/");
+			expect(MarkdownHelpers.pageUrl("Old Name", "old-name", "/wiki?p={name}&s={slug}")).toBe(
+				"/wiki?p=Old%20Name&s=old-name",
+			);
+		});
+
+		it("should write a meta-refresh page with an escaped URL", () => {
+			const html = MarkdownHelpers.redirectStub('/a?b=1&c="2"/');
+			expect(html).toMatch(/^<!DOCTYPE html>\n/);
+			expect(html).toContain(
+				'<meta http-equiv="refresh" content="0; url=/a?b=1&amp;c=&quot;2&quot;/">',
+			);
+			expect(html).toContain('<link rel="canonical" href="/a?b=1&amp;c=&quot;2&quot;/">');
+		});
+	});
+
+	describe("namespace paths", () => {
+		it("should slugify each namespace segment", () => {
+			expect(MarkdownHelpers.slugifyPath("Docs/Getting Started/ Setup ")).toBe(
+				"docs/getting-started/setup",
+			);
+			expect(MarkdownHelpers.slugifyPath("/Top//Level/")).toBe("top/level");
+		});
+
+		it("should list namespace ancestors outermost first", () => {
+			expect(MarkdownHelpers.namespaceAncestors("docs/guides/setup")).toEqual([
+				"docs",
+				"docs/guides",
+			]);
+			expect(MarkdownHelpers.namespaceAncestors("Standalone")).toEqual([]);
+		});
+
+		it("should build page paths from slugs for each strategy", () => {
+			const page = {} as PageEntity;
+			expect(MarkdownHelpers.getPagePath(page, "docs/My Guide", "namespace")).toBe("docs/my-guide");
+			expect(MarkdownHelpers.getPagePath(page, "docs/My Guide", "flat")).toBe("docs-my-guide");
+			expect(MarkdownHelpers.getPagePath(page, "///", "namespace")).toBe("untitled");
+		});
+
+		it("should point relative asset paths up to the root", () => {
+			expect(MarkdownHelpers.relativeAssetPath("assets/", 2)).toBe("../../assets/");
+			expect(MarkdownHelpers.relativeAssetPath("./assets/", 1)).toBe("../assets/");
+			expect(MarkdownHelpers.relativeAssetPath("assets/", 0)).toBe("assets/");
+			expect(MarkdownHelpers.relativeAssetPath("/static/img/", 2)).toBe("/static/img/");
+			expect(MarkdownHelpers.relativeAssetPath("https://cdn.dev/a/", 2)).toBe("https://cdn.dev/a/");
+		});
+
+		it("should slug namespace pages as paths", () => {
+			const page = {} as PageEntity;
+			expect(MarkdownHelpers.getPageSlug(page, "Docs/Setup", "namespace")).toBe("docs/setup");
+			expect(MarkdownHelpers.getPageSlug(page, "Docs/Setup")).toBe("docs-setup");
+		});
+
+		it("should link namespace pages by path from the current page's depth", () => {
+			const options = { linkMode: "relative", pathStrategy: "namespace" } as const;
+			expect(MarkdownHelpers.formatPageLink("Docs/Intro", options)).toBe(
+				"[Docs/Intro](docs/intro.md)",
+			);
+			expect(MarkdownHelpers.formatPageLink("Docs/Intro", { ...options, pageDepth: 2 })).toBe(
+				"[Docs/Intro](../../docs/intro.md)",
+			);
+			expect(
+				MarkdownHelpers.formatPageLink("Docs/Intro", {
+					linkMode: "template",
+					linkTemplate: "/{slug}/",
+					pathStrategy: "namespace",
+				}),
+			).toBe("[Docs/Intro](/docs/intro/)");
+		});
+	});
+
+	describe("uniqueSlugs", () => {
+		it("should number repeated slugs", () => {
+			expect(MarkdownHelpers.uniqueSlugs(["post", "post", "other", "post"])).toEqual([
+				"post",
+				"post-2",
+				"other",
+				"post-3",
+			]);
+		});
+
+		it("should not take a slug another page already has", () => {
+			expect(MarkdownHelpers.uniqueSlugs(["post", "post", "post-2"])).toEqual([
+				"post",
+				"post-3",
+				"post-2",
+			]);
+		});
+
+		it("should compare case-insensitively", () => {
+			expect(MarkdownHelpers.uniqueSlugs(["About", "about"])).toEqual(["About", "about-2"]);
+		});
+	});
+
+	describe("getPageSlug", () => {
+		const page = (fields: Record<string, unknown>) => fields as unknown as PageEntity;
+
+		it("should prefer a slug property", () => {
+			expect(MarkdownHelpers.getPageSlug(page({ properties: { slug: "hello" } }), "Hi")).toBe(
+				"hello",
+			);
+			expect(
+				MarkdownHelpers.getPageSlug(page({ ":user.property/slug-Ab12": " custom/path " }), "Hi"),
+			).toBe("custom/path");
+		});
+
+		it("should slugify the name otherwise", () => {
+			expect(MarkdownHelpers.getPageSlug(page({ properties: { slug: "" } }), "Über uns")).toBe(
+				"uber-uns",
+			);
+			expect(MarkdownHelpers.getPageSlug(page({ ":user.property/slugline-x": "no" }), "A B")).toBe(
+				"a-b",
+			);
+		});
+	});
+
+	describe("journalDayToIso", () => {
+		it("should convert journal days to ISO dates", () => {
+			expect(MarkdownHelpers.journalDayToIso(20240115)).toBe("2024-01-15");
+			expect(MarkdownHelpers.journalDayToIso("20231231")).toBe("2023-12-31");
+		});
+
+		it("should return null for anything else", () => {
+			expect(MarkdownHelpers.journalDayToIso(123)).toBeNull();
+			expect(MarkdownHelpers.journalDayToIso(undefined)).toBeNull();
+			expect(MarkdownHelpers.journalDayToIso("Jan 15th, 2024")).toBeNull();
+		});
+	});
+
+	describe("date formatting", () => {
+		const instant = Date.UTC(2024, 0, 15, 23, 30, 5);
+
+		it("should split an instant in the given time zone", () => {
+			expect(MarkdownHelpers.zonedDateParts(instant, "UTC")).toEqual({
+				year: 2024,
+				month: 1,
+				day: 15,
+				hour: 23,
+				minute: 30,
+				second: 5,
+				offset: 0,
+			});
+			expect(MarkdownHelpers.zonedDateParts(instant, "Europe/Berlin")).toMatchObject({
+				day: 16,
+				hour: 0,
+				offset: 60,
+			});
+			expect(MarkdownHelpers.zonedDateParts(instant, "America/New_York").offset).toBe(-300);
+		});
+
+		it("should format date parts with tokens", () => {
+			const parts = MarkdownHelpers.zonedDateParts(instant, "Asia/Kolkata");
+			expect(MarkdownHelpers.formatDateParts(parts, "YYYY-MM-DD")).toBe("2024-01-16");
+			expect(MarkdownHelpers.formatDateParts(parts, "YYYY-MM-DDTHH:mm:ssZ")).toBe(
+				"2024-01-16T05:00:05+05:30",
+			);
+			expect(
+				MarkdownHelpers.formatDateParts(
+					MarkdownHelpers.zonedDateParts(instant, "UTC"),
+					"DD/MM/YYYY HH:mm Z",
+				),
+			).toBe("15/01/2024 23:30 Z");
+		});
+
+		it("should place journal days at midnight in the time zone", () => {
+			const parts = MarkdownHelpers.journalDateParts(20240715, "Europe/Berlin");
+			expect(parts).toEqual({
+				year: 2024,
+				month: 7,
+				day: 15,
+				hour: 0,
+				minute: 0,
+				second: 0,
+				offset: 120,
+			});
+			expect(MarkdownHelpers.journalDateParts("not a day")).toBeNull();
+		});
+	});
+
+	describe("coercePropertyValue", () => {
+		it("should parse numbers and leave other text alone", () => {
+			expect(MarkdownHelpers.coercePropertyValue("42", "number")).toBe(42);
+			expect(MarkdownHelpers.coercePropertyValue("-1.5", "number")).toBe(-1.5);
+			expect(MarkdownHelpers.coercePropertyValue("many", "number")).toBe("many");
+			expect(MarkdownHelpers.coercePropertyValue(" ", "number")).toBe(" ");
+		});
+
+		it("should turn checkbox strings into booleans", () => {
+			expect(MarkdownHelpers.coercePropertyValue("true", "checkbox")).toBe(true);
+			expect(MarkdownHelpers.coercePropertyValue("FALSE", "checkbox")).toBe(false);
+			expect(MarkdownHelpers.coercePropertyValue(true, "checkbox")).toBe(true);
+		});
+
+		it("should write datetimes as ISO timestamps", () => {
+			expect(MarkdownHelpers.coercePropertyValue(Date.UTC(2024, 0, 15, 9, 30), "datetime")).toEqual(
+				new FrontmatterDate("2024-01-15T09:30:00.000Z"),
+			);
+		});
+
+		it("should mark dates as typed", () => {
+			expect(MarkdownHelpers.coercePropertyValue("2024-01-15", "date")).toEqual(
+				new FrontmatterDate("2024-01-15"),
+			);
+			expect(MarkdownHelpers.coercePropertyValue("Someday", "date")).toBe("Someday");
+		});
+
+		it("should coerce each item of a list", () => {
+			expect(MarkdownHelpers.coercePropertyValue(["1", "2"], "number")).toEqual([1, 2]);
+		});
+
+		it("should leave default and url values untouched", () => {
+			expect(MarkdownHelpers.coercePropertyValue("42", "default")).toBe("42");
+			expect(MarkdownHelpers.coercePropertyValue("https://x.dev", "url")).toBe("https://x.dev");
+		});
+	});
+
+	describe("applyFrontmatterMapping", () => {
+		const data = { title: "Post", "publish-date": "2024-01-15", Summary: "Intro", wip: true };
+
+		it("should rename keys case-insensitively", () => {
+			expect(
+				MarkdownHelpers.applyFrontmatterMapping(data, {
+					rename: { "publish-date": "date", summary: "description", wip: "draft" },
+				}),
+			).toEqual({ title: "Post", date: "2024-01-15", description: "Intro", draft: true });
+		});
+
+		it("should drop keys, then fill defaults and set static fields", () => {
+			expect(
+				MarkdownHelpers.applyFrontmatterMapping(data, {
+					drop: ["summary", "wip"],
+					defaults: { draft: false, title: "Untitled" },
+					static: { layout: "post" },
+				}),
+			).toEqual({ title: "Post", "publish-date": "2024-01-15", draft: false, layout: "post" });
+		});
+
+		it("should put ordered keys first and keep the rest in place", () => {
+			const result = MarkdownHelpers.applyFrontmatterMapping(data, {
+				order: ["wip", "title", "missing"],
+			});
+			expect(Object.keys(result)).toEqual(["wip", "title", "publish-date", "Summary"]);
+		});
+
+		it("should let a renamed property replace an existing key", () => {
+			expect(
+				MarkdownHelpers.applyFrontmatterMapping(
+					{ date: "2020-01-01", "publish-date": "2024-01-15" },
+					{ rename: { "publish-date": "date" } },
+				),
+			).toEqual({ date: "2024-01-15" });
+		});
+	});
+
 	describe("isImageAsset", () => {
 		it("should return true for png", () => {
 			expect(MarkdownHelpers.isImageAsset("png")).toBe(true);
@@ -800,6 +1733,275 @@ More text`;
 		});
 	});
 
+	describe("orgToMarkdown", () => {
+		it("should convert emphasis, code and strike-through", () => {
+			expect(
+				MarkdownHelpers.orgToMarkdown(
+					"A *bold* /italic/ claim with ~code~, =verbatim= and +old+ text",
+				),
+			).toBe("A **bold** _italic_ claim with `code`, `verbatim` and ~~old~~ text");
+		});
+
+		it("should not treat arithmetic, paths or URLs as emphasis", () => {
+			const content = "3 * 4 * 5 and a/b/c at https://example.com/a/b/";
+			expect(MarkdownHelpers.orgToMarkdown(content)).toBe(content);
+		});
+
+		it("should convert headings", () => {
+			expect(MarkdownHelpers.orgToMarkdown("** Section *one*")).toBe("## Section **one**");
+		});
+
+		it("should convert links and images", () => {
+			expect(
+				MarkdownHelpers.orgToMarkdown(
+					"[[https://example.com][Example]], [[https://example.com]], [[file:../assets/a.png]], [[Page][label]] and [[Page]]",
+				),
+			).toBe(
+				"[Example](https://example.com), <https://example.com>, ![](../assets/a.png), [label]([[Page]]) and [[Page]]",
+			);
+		});
+
+		it("should convert SRC, EXAMPLE and QUOTE blocks and leave code untouched", () => {
+			expect(
+				MarkdownHelpers.orgToMarkdown("#+BEGIN_SRC python\nx = *y* / 2\n#+END_SRC\nAfter *this*"),
+			).toBe("```python\nx = *y* / 2\n```\nAfter **this**");
+			expect(MarkdownHelpers.orgToMarkdown("#+begin_example\n/raw/\n#+end_example")).toBe(
+				"```\n/raw/\n```",
+			);
+			expect(
+				MarkdownHelpers.orgToMarkdown("#+BEGIN_QUOTE\nTo be /or/ not\n\nto be\n#+END_QUOTE"),
+			).toBe("> To be _or_ not\n>\n> to be");
+		});
+
+		it("should drop property and logbook drawers", () => {
+			expect(
+				MarkdownHelpers.orgToMarkdown(
+					"Task\n:LOGBOOK:\nCLOCK: [2024-01-01 Mon 10:00]\n:END:\n:PROPERTIES:\n:id: 42\n:END:\nNotes",
+				),
+			).toBe("Task\nNotes");
+		});
+
+		it("should leave admonition and query blocks for later handling", () => {
+			const content = "#+BEGIN_NOTE\n*Heads up*\n#+END_NOTE";
+			expect(MarkdownHelpers.orgToMarkdown(content)).toBe("#+BEGIN_NOTE\n**Heads up**\n#+END_NOTE");
+		});
+	});
+
+	describe("normalizeInlineFormatting", () => {
+		const normalize = (content: string, formatting?: InlineFormatting) =>
+			MarkdownHelpers.normalizeInlineFormatting(content, formatting);
+
+		describe("highlights", () => {
+			it("should convert ==text== and ^^text^^ to <mark> by default", () => {
+				expect(normalize("A ==key point== and ^^another^^")).toBe(
+					"A <mark>key point</mark> and <mark>another</mark>",
+				);
+			});
+
+			it("should convert highlights to bold", () => {
+				expect(normalize("A ==key point==", { highlight: "markdown" })).toBe("A **key point**");
+			});
+
+			it("should keep highlights", () => {
+				expect(normalize("A ==key point==", { highlight: "keep" })).toBe("A ==key point==");
+			});
+
+			it("should ignore comparisons and code", () => {
+				expect(normalize("if a == b == c")).toBe("if a == b == c");
+				expect(normalize("Use `==x==` here")).toBe("Use `==x==` here");
+			});
+		});
+
+		describe("org-style links", () => {
+			it("should convert [[url][label]] to a markdown link by default", () => {
+				expect(normalize("See [[https://example.com/docs][the docs]].")).toBe(
+					"See [the docs](https://example.com/docs).",
+				);
+			});
+
+			it("should convert [[url][label]] to an <a> tag", () => {
+				expect(normalize("[[https://example.com][Example]]", { orgLink: "html" })).toBe(
+					'<a href="https://example.com">Example</a>',
+				);
+			});
+
+			it("should turn page targets into labelled page links", () => {
+				expect(normalize("[[Big Idea][this]]", { orgLink: "html" })).toBe("[this]([[Big Idea]])");
+			});
+
+			it("should keep org-style links", () => {
+				const content = "[[https://example.com][Example]]";
+				expect(normalize(content, { orgLink: "keep" })).toBe(content);
+			});
+		});
+
+		describe("hiccup", () => {
+			it("should reduce hiccup to its text by default", () => {
+				expect(normalize('Status: [:span {:class "red"} "blocked"]')).toBe("Status: blocked");
+			});
+
+			it("should map formatting tags to markdown", () => {
+				expect(normalize('[:b "Bold"] and [:em "soft"]')).toBe("**Bold** and _soft_");
+			});
+
+			it("should convert hiccup to HTML elements", () => {
+				expect(normalize('[:span {:class "red" :title "x"} "blocked"]', { hiccup: "html" })).toBe(
+					'<span class="red" title="x">blocked</span>',
+				);
+			});
+
+			it("should keep hiccup", () => {
+				const content = '[:span "text"]';
+				expect(normalize(content, { hiccup: "keep" })).toBe(content);
+			});
+		});
+
+		describe("cloze", () => {
+			it("should convert cloze to bold by default", () => {
+				expect(normalize("The capital is {{cloze Paris}}")).toBe("The capital is **Paris**");
+			});
+
+			it("should convert cloze to <mark>", () => {
+				expect(normalize("{{cloze Paris}}", { cloze: "html" })).toBe("<mark>Paris</mark>");
+			});
+
+			it("should keep cloze and leave other macros alone", () => {
+				expect(normalize("{{cloze Paris}}", { cloze: "keep" })).toBe("{{cloze Paris}}");
+				expect(normalize("{{video https://youtu.be/x}}")).toBe("{{video https://youtu.be/x}}");
+			});
+		});
+	});
+
+	describe("convertCallouts", () => {
+		const note = "#+BEGIN_NOTE\nFirst line\n\nSecond line\n#+END_NOTE";
+
+		it("should convert to GitHub alerts", () => {
+			expect(MarkdownHelpers.convertCallouts(note, "github")).toBe(
+				"> [!NOTE]\n> First line\n>\n> Second line",
+			);
+		});
+
+		it("should convert to Obsidian callouts", () => {
+			expect(MarkdownHelpers.convertCallouts("#+BEGIN_TIP\nTry it\n#+END_TIP", "obsidian")).toBe(
+				"> [!tip]\n> Try it",
+			);
+		});
+
+		it("should map types without a Docusaurus container", () => {
+			expect(
+				MarkdownHelpers.convertCallouts("#+BEGIN_CAUTION\nHot\n#+END_CAUTION", "docusaurus"),
+			).toBe(":::danger\nHot\n:::");
+			expect(
+				MarkdownHelpers.convertCallouts("#+BEGIN_IMPORTANT\nRead\n#+END_IMPORTANT", "docusaurus"),
+			).toBe(":::info\nRead\n:::");
+		});
+
+		it("should convert to Hugo shortcodes", () => {
+			expect(
+				MarkdownHelpers.convertCallouts("Intro\n#+BEGIN_WARNING\nCareful\n#+END_WARNING", "hugo"),
+			).toBe('Intro\n{{< callout type="warning" >}}\nCareful\n{{< /callout >}}');
+		});
+
+		it("should convert callouts holding inline code, URLs and fenced code", () => {
+			expect(
+				MarkdownHelpers.convertCallouts(
+					"#+BEGIN_NOTE\nRun `npm install` first\n#+END_NOTE",
+					"github",
+				),
+			).toBe("> [!NOTE]\n> Run `npm install` first");
+			expect(
+				MarkdownHelpers.convertCallouts(
+					"#+BEGIN_TIP\nSee https://example.com and [docs](https://x.dev)\n#+END_TIP",
+					"obsidian",
+				),
+			).toBe("> [!tip]\n> See https://example.com and [docs](https://x.dev)");
+			expect(
+				MarkdownHelpers.convertCallouts(
+					"#+BEGIN_WARNING\nBefore:\n```\n#+END_WARNING\n```\nAfter\n#+END_WARNING",
+					"github",
+				),
+			).toBe("> [!WARNING]\n> Before:\n> ```\n> #+END_WARNING\n> ```\n> After");
+		});
+
+		it("should leave the markers alone in keep mode, in code and when unbalanced", () => {
+			expect(MarkdownHelpers.convertCallouts(note, "keep")).toBe(note);
+			const fenced = "```org\n#+BEGIN_NOTE\nx\n#+END_NOTE\n```";
+			expect(MarkdownHelpers.convertCallouts(fenced, "github")).toBe(fenced);
+			const mismatched = "#+BEGIN_NOTE\nx\n#+END_TIP";
+			expect(MarkdownHelpers.convertCallouts(mismatched, "github")).toBe(mismatched);
+		});
+
+		it("should read the DB-version callout display type", () => {
+			const block = (displayType: string) =>
+				({ "logseq.property.node/display-type": displayType }) as unknown as BlockEntity;
+			expect(MarkdownHelpers.getCalloutType(block(":warning"))).toBe("warning");
+			expect(MarkdownHelpers.getCalloutType(block("tip"))).toBe("tip");
+			expect(MarkdownHelpers.getCalloutType(block(":quote"))).toBeNull();
+		});
+	});
+
+	describe("isExcluded", () => {
+		const block = (fields: Record<string, unknown>) => fields as unknown as BlockEntity;
+
+		it("should honour the blogseq-exclude property", () => {
+			expect(MarkdownHelpers.isExcluded(block({ properties: { blogseqExclude: true } }))).toBe(
+				true,
+			);
+			expect(MarkdownHelpers.isExcluded(block({ properties: { "blogseq-exclude": "true" } }))).toBe(
+				true,
+			);
+			expect(MarkdownHelpers.isExcluded(block({ properties: { blogseqExclude: false } }))).toBe(
+				false,
+			);
+		});
+
+		it("should find the exclude tag in content and tags", () => {
+			expect(MarkdownHelpers.isExcluded(block({ content: "Note #Private." }), "private")).toBe(
+				true,
+			);
+			expect(
+				MarkdownHelpers.isExcluded(block({ content: "tags:: work, private" }), "private"),
+			).toBe(true);
+			expect(
+				MarkdownHelpers.isExcluded(block({ properties: { tags: ["private"] } }), "#private"),
+			).toBe(true);
+			expect(MarkdownHelpers.isExcluded(block({ content: "Note #private" }), "")).toBe(false);
+		});
+	});
+
+	describe("getOutlineFormat", () => {
+		it("should read the blogseq-format property", () => {
+			const listBlock = { properties: { blogseqFormat: "list" } } as unknown as BlockEntity;
+			const paragraphBlock = {
+				properties: { "blogseq-format": "paragraph" },
+			} as unknown as BlockEntity;
+			expect(MarkdownHelpers.getOutlineFormat(listBlock)).toBe("list");
+			expect(MarkdownHelpers.getOutlineFormat(paragraphBlock)).toBe("paragraph");
+		});
+
+		it("should ignore unknown formats", () => {
+			const block = { properties: { blogseqFormat: "table" } } as unknown as BlockEntity;
+			expect(MarkdownHelpers.getOutlineFormat(block)).toBeNull();
+		});
+	});
+
+	describe("isOrderedListBlock", () => {
+		it("should detect DB and file graph numbered blocks", () => {
+			const dbBlock = { ":logseq.property/order-list-type": ":number" } as unknown as BlockEntity;
+			const fileBlock = {
+				properties: { "logseq.orderListType": "number" },
+			} as unknown as BlockEntity;
+			expect(MarkdownHelpers.isOrderedListBlock(dbBlock)).toBe(true);
+			expect(MarkdownHelpers.isOrderedListBlock(fileBlock)).toBe(true);
+		});
+
+		it("should ignore other blocks", () => {
+			expect(MarkdownHelpers.isOrderedListBlock({ properties: {} } as unknown as BlockEntity)).toBe(
+				false,
+			);
+		});
+	});
+
 	describe("isCodeBlock", () => {
 		it("should detect code block with root-level property", () => {
 			const block = {
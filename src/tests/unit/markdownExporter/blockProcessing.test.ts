@@ -1013,6 +1013,26 @@ describe("MarkdownExporter - Block Processing", () => {
 			expect(result).not.toMatch(/^```/m);
 		});
 
+		it("should export code block content without cleaning Logseq syntax", async () => {
+			const page = createMockPage({ name: "Test" });
+			const source = "#include <stdio.h>\nkey:: value\nTODO [[not a ref]]";
+			const codeBlock = createMockBlock({ uuid: "code-raw-c", content: source });
+			(codeBlock as any)[":logseq.property.node/display-type"] = ":code";
+			(codeBlock as any)[":logseq.property.code/lang"] = "c";
+
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [codeBlock]);
+
+			const result = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: false,
+				includeTags: false,
+			});
+
+			expect(result).toBe("```c\n" + source + "\n```");
+		});
+
 		it("should prioritize code over heading if both properties exist", async () => {
 			const page = createMockPage({ name: "Test" });
 			const block = createMockBlock({
@@ -1072,4 +1092,1039 @@ describe("MarkdownExporter - Block Processing", () => {
 			});
 		});
 	});
+
+	describe("Markdown Syntax Tree Serialization", () => {
+		const exportOptions = {
+			...DEFAULT_OPTIONS,
+			includePageName: false,
+			includeProperties: false,
+		};
+
+		it("should leave fenced code content untouched", async () => {
+			const page = createMockPage({ name: "Test" });
+			const codeBlock = createMockBlock({
+				uuid: "code-raw",
+				content: "# comment\nrun()\n\n- not a list",
+			});
+			(codeBlock as any)[":logseq.property.node/display-type"] = ":code";
+			(codeBlock as any)[":logseq.property.code/lang"] = "bash";
+
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [codeBlock]);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("```bash\n# comment\nrun()\n\n- not a list\n```");
+		});
+
+		it("should use a longer fence when code contains backticks", async () => {
+			const page = createMockPage({ name: "Test" });
+			const codeBlock = createMockBlock({
+				uuid: "code-fence",
+				content: "```js\nx()\n```",
+			});
+			(codeBlock as any)[":logseq.property.node/display-type"] = ":code";
+
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [codeBlock]);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("````\n```js\nx()\n```\n````");
+		});
+
+		it("should build tight nested lists when not flattening", async () => {
+			const page = createMockPage({ name: "Test" });
+			const block = createMockBlock({
+				uuid: "root",
+				content: "Intro",
+				children: [
+					createMockBlock({
+						uuid: "item-1",
+						content: "First",
+						children: [createMockBlock({ uuid: "item-1-1", content: "Nested" })],
+					}),
+					createMockBlock({ uuid: "item-2", content: "Second" }),
+				],
+			});
+
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, flattenNested: false });
+
+			expect(result).toBe("Intro\n\n- First\n  - Nested\n- Second");
+		});
+
+		it("should indent continuation lines of multi-line list items", async () => {
+			const page = createMockPage({ name: "Test" });
+			const block = createMockBlock({
+				uuid: "root",
+				content: "Intro",
+				children: [createMockBlock({ uuid: "multi", content: "Line one\nLine two" })],
+			});
+
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, flattenNested: false });
+
+			expect(result).toBe("Intro\n\n- Line one\n  Line two");
+		});
+
+		it("should nest quotes under their parent list item", async () => {
+			const page = createMockPage({ name: "Test" });
+			const quote = createMockBlock({ uuid: "quote", content: "Quoted" });
+			(quote as any)["logseq.property.node/display-type"] = "quote";
+			const block = createMockBlock({
+				uuid: "root",
+				content: "Intro",
+				children: [createMockBlock({ uuid: "item", content: "Item", children: [quote] })],
+			});
+
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, flattenNested: false });
+
+			expect(result).toBe("Intro\n\n- Item\n  > Quoted");
+		});
+
+		it("should hoist children of empty list blocks", async () => {
+			const page = createMockPage({ name: "Test" });
+			const block = createMockBlock({
+				uuid: "root",
+				content: "Intro",
+				children: [
+					createMockBlock({ uuid: "first", content: "First" }),
+					createMockBlock({
+						uuid: "empty",
+						content: "",
+						children: [createMockBlock({ uuid: "orphan", content: "Orphan" })],
+					}),
+				],
+			});
+
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, flattenNested: false });
+
+			expect(result).toBe("Intro\n\n- First\n- Orphan");
+		});
+	});
+
+	describe("Task Markers", () => {
+		const exportOptions = {
+			...DEFAULT_OPTIONS,
+			includePageName: false,
+			includeProperties: false,
+		};
+
+		const setupTasks = () => {
+			const page = createMockPage({ name: "Test" });
+			const blocks = [
+				createMockBlock({ uuid: "task-1", content: "TODO Write draft" }),
+				createMockBlock({ uuid: "task-2", content: "DONE Pick a topic" }),
+			];
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, blocks);
+		};
+
+		it("should strip markers by default", async () => {
+			setupTasks();
+			const result = await exporter.exportCurrentPage(exportOptions);
+			expect(result).toBe("Write draft\n\nPick a topic");
+		});
+
+		it("should render GFM task list items", async () => {
+			setupTasks();
+			const result = await exporter.exportCurrentPage({ ...exportOptions, taskMarkers: "gfm" });
+			expect(result).toBe("- [ ] Write draft\n- [x] Pick a topic");
+		});
+
+		it("should tick and strike through cancelled GFM tasks and leave waiting ones open", async () => {
+			const page = createMockPage({ name: "Test" });
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({ uuid: "task-1", content: "CANCELLED Old plan" }),
+				createMockBlock({ uuid: "task-2", content: "CANCELED Other plan" }),
+				createMockBlock({ uuid: "task-3", content: "WAITING Reply" }),
+			]);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, taskMarkers: "gfm" });
+
+			expect(result).toBe("- [x] ~~Old plan~~\n- [x] ~~Other plan~~\n- [ ] Reply");
+		});
+
+		it("should nest children under GFM task items when not flattening", async () => {
+			const page = createMockPage({ name: "Test" });
+			const block = createMockBlock({
+				uuid: "task-parent",
+				content: "TODO Launch",
+				children: [createMockBlock({ uuid: "task-child", content: "DONE Buy domain" })],
+			});
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+
+			const result = await exporter.exportCurrentPage({
+				...exportOptions,
+				flattenNested: false,
+				taskMarkers: "gfm",
+			});
+
+			expect(result).toBe("- [ ] Launch\n  - [x] Buy domain");
+		});
+
+		it("should prefix emoji", async () => {
+			setupTasks();
+			const result = await exporter.exportCurrentPage({ ...exportOptions, taskMarkers: "emoji" });
+			expect(result).toBe("⬜ Write draft\n\n✅ Pick a topic");
+		});
+
+		it("should keep markers verbatim", async () => {
+			setupTasks();
+			const result = await exporter.exportCurrentPage({ ...exportOptions, taskMarkers: "keep" });
+			expect(result).toBe("TODO Write draft\n\nDONE Pick a topic");
+		});
+
+		it("should read DB-version status idents", async () => {
+			const page = createMockPage({ name: "Test" });
+			const block = createMockBlock({ uuid: "db-task", content: "Review PR" });
+			(block as any)[":logseq.property/status"] = ":logseq.property/status.doing";
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, taskMarkers: "keep" });
+
+			expect(result).toBe("DOING Review PR");
+		});
+
+		it("should resolve DB-version status entity ids", async () => {
+			const page = createMockPage({ name: "Test" });
+			const block = createMockBlock({ uuid: "db-task", content: "Ship it" });
+			(block as any)["logseq.property/status"] = 42;
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+			mockAPI.DB.datascriptQuery.mockImplementation(async (query: string) =>
+				query.includes("[42 :db/ident ?ident]") ? [[":logseq.property/status.done"]] : [],
+			);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, taskMarkers: "gfm" });
+
+			expect(result).toBe("- [x] Ship it");
+		});
+	});
+
+	describe("Task Priority and Dates", () => {
+		const exportOptions = {
+			...DEFAULT_OPTIONS,
+			includePageName: false,
+			includeProperties: false,
+		};
+
+		const setupTask = (content: string) => {
+			const page = createMockPage({ name: "Test" });
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [createMockBlock({ uuid: "task", content })]);
+		};
+
+		const fileTask =
+			"TODO [#A] Write draft\nSCHEDULED: <2026-10-12 Mon>\nDEADLINE: <2026-10-19 Mon 17:00>";
+
+		it("should strip priority and dates by default", async () => {
+			setupTask(fileTask);
+			const result = await exporter.exportCurrentPage(exportOptions);
+			expect(result).toBe("Write draft");
+		});
+
+		it("should render badges for file-graph metadata", async () => {
+			setupTask(fileTask);
+			const result = await exporter.exportCurrentPage({ ...exportOptions, taskMetadata: "badges" });
+			expect(result).toBe("**Priority A** Write draft ⏳ 2026-10-12 📅 2026-10-19 17:00");
+		});
+
+		it("should combine badges with task markers", async () => {
+			setupTask(fileTask);
+			const result = await exporter.exportCurrentPage({
+				...exportOptions,
+				taskMarkers: "gfm",
+				taskMetadata: "badges",
+			});
+			expect(result).toBe("- [ ] **Priority A** Write draft ⏳ 2026-10-12 📅 2026-10-19 17:00");
+		});
+
+		it("should keep SCHEDULED lines inside code blocks", async () => {
+			setupTask("Example\n```org\nSCHEDULED: <2026-10-12 Mon>\n```");
+			const result = await exporter.exportCurrentPage({ ...exportOptions, taskMetadata: "badges" });
+			expect(result).toBe("Example\n```org\nSCHEDULED: <2026-10-12 Mon>\n```");
+		});
+
+		it("should read DB-version priority and dates", async () => {
+			const page = createMockPage({ name: "Test" });
+			const block = createMockBlock({ uuid: "db-task", content: "Review PR" });
+			(block as any)[":logseq.property/status"] = ":logseq.property/status.todo";
+			(block as any)[":logseq.property/priority"] = 7;
+			(block as any)[":logseq.property/deadline"] = new Date(2026, 9, 19).getTime();
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+			mockAPI.DB.datascriptQuery.mockImplementation(async (query: string) =>
+				query.includes("[7 :db/ident ?ident]") ? [[":logseq.property/priority.high"]] : [],
+			);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, taskMetadata: "badges" });
+
+			expect(result).toBe("**Priority High** Review PR 📅 2026-10-19");
+		});
+
+		it("should lift metadata into frontmatter for a single task block", async () => {
+			setupTask(fileTask);
+			const result = await exporter.exportCurrentPage({
+				...exportOptions,
+				includeProperties: true,
+				taskMetadata: "badges",
+				taskMetadataFrontmatter: true,
+			});
+
+			expect(result).toContain(
+				"priority: A\nscheduled: 2026-10-12\ndeadline: 2026-10-19 17:00\n---",
+			);
+			expect(result).toMatch(/---\n+Write draft$/);
+		});
+
+		it("should not lift metadata when the page has several blocks", async () => {
+			const page = createMockPage({ name: "Test" });
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({ uuid: "task-1", content: "TODO [#B] First" }),
+				createMockBlock({ uuid: "task-2", content: "TODO Second" }),
+			]);
+
+			const result = await exporter.exportCurrentPage({
+				...exportOptions,
+				includeProperties: true,
+				taskMetadata: "badges",
+				taskMetadataFrontmatter: true,
+			});
+
+			expect(result).not.toContain("priority:");
+			expect(result).toContain("**Priority B** First");
+		});
+	});
+
+	describe("Embeds", () => {
+		const exportOptions = {
+			...DEFAULT_OPTIONS,
+			includePageName: false,
+			includeProperties: false,
+		};
+
+		const page = createMockPage({ name: "Docs" });
+
+		// Each lookup returns fresh objects, like the real API
+		const mockEmbedTargets = (
+			pageBlocks: BlockEntity[],
+			pages: Record<string, () => BlockEntity[]>,
+			blocks: Record<string, () => BlockEntity> = {},
+		) => {
+			mockCurrentPageResponse(mockAPI, page);
+			mockAPI.Editor.getPageBlocksTree.mockImplementation(async (id: string) =>
+				id === page.uuid ? pageBlocks : (pages[id]?.() ?? []),
+			);
+			mockAPI.Editor.getBlock.mockImplementation(async (uuid: string) => blocks[uuid]?.() ?? null);
+		};
+
+		it("should transclude an embedded page in place of the macro", async () => {
+			mockEmbedTargets(
+				[
+					createMockBlock({ uuid: "intro", content: "Intro" }),
+					createMockBlock({ uuid: "embed", content: "{{embed [[Glossary]]}}" }),
+				],
+				{
+					Glossary: () => [
+						createMockBlock({
+							uuid: "term",
+							content: "Term",
+							children: [createMockBlock({ uuid: "definition", content: "Definition" })],
+						}),
+					],
+				},
+			);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, flattenNested: false });
+
+			expect(result).toBe("Intro\n\n- Term\n  - Definition");
+		});
+
+		it("should transclude an embedded block with its children", async () => {
+			const embeddedUuid = "650e8400-e29b-41d4-a716-446655440000";
+			mockEmbedTargets(
+				[createMockBlock({ uuid: "embed", content: `See: {{embed ((${embeddedUuid}))}}` })],
+				{},
+				{
+					[embeddedUuid]: () =>
+						createMockBlock({
+							uuid: embeddedUuid,
+							content: "Shared note",
+							children: [createMockBlock({ uuid: "shared-child", content: "Detail" })],
+						}),
+				},
+			);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("See:\n\nShared note\n\nDetail");
+		});
+
+		it.each(["footnote", "anchor"] as const)(
+			"should not treat a block embed as a reference in %s mode",
+			async (blockRefMode) => {
+				const embeddedUuid = "650e8400-e29b-41d4-a716-446655440000";
+				mockEmbedTargets(
+					[createMockBlock({ uuid: "embed", content: `See: {{embed ((${embeddedUuid}))}}` })],
+					{},
+					{
+						[embeddedUuid]: () => createMockBlock({ uuid: embeddedUuid, content: "Shared note" }),
+					},
+				);
+
+				const result = await exporter.exportCurrentPage({
+					...exportOptions,
+					preserveBlockRefs: true,
+					blockRefMode,
+				});
+
+				expect(result).toBe("See:\n\nShared note");
+			},
+		);
+
+		it("should drop a block embedding itself", async () => {
+			const selfUuid = "650e8400-e29b-41d4-a716-446655440001";
+			const self = () =>
+				createMockBlock({ uuid: selfUuid, content: `Me {{embed ((${selfUuid}))}}` });
+			mockEmbedTargets([self()], {}, { [selfUuid]: self });
+
+			const result = await exporter.exportCurrentPage({
+				...exportOptions,
+				preserveBlockRefs: true,
+			});
+
+			expect(result).toBe("Me");
+		});
+
+		it("should leave embeds inside code alone", async () => {
+			mockEmbedTargets(
+				[createMockBlock({ uuid: "code", content: "Use `{{embed [[Glossary]]}}`" })],
+				{
+					Glossary: () => [createMockBlock({ uuid: "term", content: "Term" })],
+				},
+			);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("Use `{{embed [[Glossary]]}}`");
+		});
+
+		it("should stop embed cycles", async () => {
+			mockEmbedTargets([createMockBlock({ uuid: "a", content: "A {{embed [[B]]}}" })], {
+				B: () => [createMockBlock({ uuid: "b", content: "B {{embed [[Docs]]}}" })],
+				Docs: () => [createMockBlock({ uuid: "a", content: "A {{embed [[B]]}}" })],
+			});
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("A\n\nB");
+		});
+
+		it("should stop at the maximum embed depth", async () => {
+			mockEmbedTargets([createMockBlock({ uuid: "top", content: "Top {{embed [[One]]}}" })], {
+				One: () => [createMockBlock({ uuid: "one", content: "One {{embed [[Two]]}}" })],
+				Two: () => [createMockBlock({ uuid: "two", content: "Two {{embed [[Three]]}}" })],
+				Three: () => [createMockBlock({ uuid: "three", content: "Three" })],
+			});
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, maxEmbedDepth: 2 });
+
+			expect(result).toBe("Top\n\nOne\n\nTwo");
+		});
+
+		it("should drop embeds when the maximum depth is 0", async () => {
+			mockEmbedTargets([createMockBlock({ uuid: "top", content: "Top {{embed [[One]]}}" })], {
+				One: () => [createMockBlock({ uuid: "one", content: "One" })],
+			});
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, maxEmbedDepth: 0 });
+
+			expect(result).toBe("Top");
+		});
+	});
+
+	describe("Query Snapshots", () => {
+		const exportOptions = {
+			...DEFAULT_OPTIONS,
+			includePageName: false,
+			includeProperties: false,
+		};
+
+		const setupQuery = (content: string) => {
+			const page = createMockPage({ name: "Dashboard" });
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({
+					uuid: "query-block",
+					content,
+					children: [createMockBlock({ uuid: "query-child", content: "Notes" })],
+				}),
+			]);
+		};
+
+		it("should strip queries by default", async () => {
+			setupQuery("Projects {{query (page-tags project)}}");
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("Projects\n\nNotes");
+			expect(mockAPI.DB.q).not.toHaveBeenCalled();
+		});
+
+		it("should freeze simple query results as a list", async () => {
+			setupQuery("Projects {{query (page-tags project)}}");
+			mockAPI.DB.q.mockResolvedValue([{ "original-name": "Alpha" }, { "original-name": "Beta" }]);
+
+			const result = await exporter.exportCurrentPage({
+				...exportOptions,
+				queryResults: "list",
+				linkMode: "wikilink",
+			});
+
+			expect(mockAPI.DB.q).toHaveBeenCalledWith("(page-tags project)");
+			expect(result).toBe("Projects\n\n- [[Alpha]]\n- [[Beta]]\n\nNotes");
+		});
+
+		it("should strip queries by default", async () => {
+			setupQuery(
+				'Drafts {{query (todo now)}}\n#+BEGIN_QUERY\n{:title "Recent" :query [:find (pull ?b [*]) :where [?b :block/marker "TODO"]]}\n#+END_QUERY',
+			);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(mockAPI.DB.datascriptQuery).not.toHaveBeenCalledWith(
+				expect.stringContaining(":block/marker"),
+			);
+			expect(result).toBe("Drafts\n\nNotes");
+		});
+
+		it("should run advanced queries through DataScript", async () => {
+			setupQuery(
+				'#+BEGIN_QUERY\n{:title "Drafts"\n :query [:find (pull ?b [*]) :where [?b :block/marker "TODO"]]}\n#+END_QUERY',
+			);
+			mockAPI.DB.datascriptQuery.mockImplementation(async (query: string) =>
+				query.startsWith("[:find (pull ?b [*])")
+					? [[{ "block/content": "TODO Draft post", "block/properties": { due: "friday" } }]]
+					: [],
+			);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, queryResults: "table" });
+
+			expect(result).toBe(
+				"| Block      | due    |\n| ---------- | ------ |\n| Draft post | friday |\n\nNotes",
+			);
+		});
+
+		it("should nest the snapshot under its block in list mode", async () => {
+			setupQuery("Projects {{query (page-tags project)}}");
+			mockAPI.DB.q.mockResolvedValue([{ "original-name": "Alpha" }]);
+
+			const result = await exporter.exportCurrentPage({
+				...exportOptions,
+				flattenNested: false,
+				queryResults: "list",
+			});
+
+			expect(result).toBe("Projects\n\n- Alpha\n- Notes");
+		});
+
+		it("should keep exporting when a query fails", async () => {
+			setupQuery("Projects {{query (page-tags project)}}");
+			mockAPI.DB.q.mockRejectedValue(new Error("bad query"));
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, queryResults: "list" });
+
+			expect(result).toBe("Projects\n\nNotes");
+		});
+	});
+
+	describe("Ordered Lists", () => {
+		const exportOptions = {
+			...DEFAULT_OPTIONS,
+			includePageName: false,
+			includeProperties: false,
+		};
+
+		const numbered = (uuid: string, content: string, children: BlockEntity[] = []) => ({
+			...createMockBlock({ uuid, content, children }),
+			"logseq.property/order-list-type": "number",
+		});
+
+		const setupSteps = () => {
+			const page = createMockPage({ name: "Tutorial" });
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({ uuid: "intro", content: "Setup" }),
+				numbered("step-1", "Install", [
+					numbered("step-1-1", "Download"),
+					numbered("step-1-2", "Unpack"),
+				]),
+				numbered("step-2", "Configure", [createMockBlock({ uuid: "tip", content: "Tip" })]),
+			]);
+		};
+
+		it("should number blocks in flatten mode", async () => {
+			setupSteps();
+			const result = await exporter.exportCurrentPage(exportOptions);
+			expect(result).toBe(
+				"Setup\n\n1. Install\n   1. Download\n   2. Unpack\n2. Configure\n\n   Tip",
+			);
+		});
+
+		it("should number blocks with per-level numbering in list mode", async () => {
+			setupSteps();
+			const result = await exporter.exportCurrentPage({ ...exportOptions, flattenNested: false });
+			expect(result).toBe(
+				"Setup\n\n1. Install\n   1. Download\n   2. Unpack\n2. Configure\n   - Tip",
+			);
+		});
+
+		it("should read the file-graph order list property", async () => {
+			const page = createMockPage({ name: "Tutorial" });
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({
+					uuid: "file-step-1",
+					content: "First\nlogseq.order-list-type:: number",
+					properties: { "logseq.orderListType": "number" },
+				}),
+				createMockBlock({
+					uuid: "file-step-2",
+					content: "Second\nlogseq.order-list-type:: number",
+					properties: { "logseq.orderListType": "number" },
+				}),
+			]);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("1. First\n2. Second");
+		});
+
+		it("should keep bullets after a numbered list separate", async () => {
+			const page = createMockPage({ name: "Tutorial" });
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({
+					uuid: "parent",
+					content: "Parent",
+					children: [
+						numbered("child-step", "Step"),
+						createMockBlock({ uuid: "child-note", content: "Note" }),
+					],
+				}),
+			]);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, flattenNested: false });
+
+			expect(result).toBe("Parent\n\n1. Step\n\n- Note");
+		});
+	});
+
+	describe("Smart Outline", () => {
+		const exportOptions = {
+			...DEFAULT_OPTIONS,
+			includePageName: false,
+			includeProperties: false,
+			smartOutline: true,
+		};
+
+		const heading = (uuid: string, content: string, level: number, children: BlockEntity[]) => ({
+			...createMockBlock({ uuid, content, children }),
+			"logseq.property/heading": level,
+		});
+
+		const setupPost = (blocks: BlockEntity[]) => {
+			const page = createMockPage({ name: "Post" });
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, blocks);
+		};
+
+		it("should keep headings and write the blocks under them as paragraphs", async () => {
+			setupPost([
+				heading("h-intro", "Intro", 2, [
+					createMockBlock({ uuid: "p-1", content: "First paragraph" }),
+					createMockBlock({ uuid: "p-2", content: "Second paragraph" }),
+				]),
+			]);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("## Intro\n\nFirst paragraph\n\nSecond paragraph");
+		});
+
+		it("should turn sibling blocks below a paragraph into a nested list", async () => {
+			setupPost([
+				createMockBlock({
+					uuid: "p-list",
+					content: "You will need:",
+					children: [
+						createMockBlock({
+							uuid: "item-1",
+							content: "A laptop",
+							children: [createMockBlock({ uuid: "item-1-note", content: "Any OS works" })],
+						}),
+						createMockBlock({ uuid: "item-2", content: "Coffee" }),
+					],
+				}),
+			]);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("You will need:\n\n- A laptop\n\n  Any OS works\n- Coffee");
+		});
+
+		it("should keep an only child as a paragraph", async () => {
+			setupPost([
+				createMockBlock({
+					uuid: "p-parent",
+					content: "Main point",
+					children: [createMockBlock({ uuid: "p-child", content: "Supporting detail" })],
+				}),
+			]);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("Main point\n\nSupporting detail");
+		});
+
+		it("should let blogseq-format override the choice", async () => {
+			setupPost([
+				heading("h-steps", "Steps", 2, [
+					createMockBlock({
+						uuid: "step-a",
+						content: "Open the app\nblogseq-format:: list",
+						properties: { blogseqFormat: "list" },
+					}),
+					createMockBlock({
+						uuid: "step-b",
+						content: "Click export",
+						properties: { "blogseq-format": "list" },
+					}),
+				]),
+				createMockBlock({
+					uuid: "p-outro",
+					content: "Done",
+					children: [
+						createMockBlock({
+							uuid: "outro-1",
+							content: "Share it",
+							properties: { "blogseq-format": "paragraph" },
+						}),
+						createMockBlock({ uuid: "outro-2", content: "Celebrate" }),
+					],
+				}),
+			]);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe(
+				"## Steps\n\n- Open the app\n- Click export\n\nDone\n\nShare it\n\n- Celebrate",
+			);
+		});
+
+		it("should take precedence over flattenNested", async () => {
+			setupPost([
+				createMockBlock({
+					uuid: "p-parent",
+					content: "Parent",
+					children: [
+						createMockBlock({ uuid: "c-1", content: "One" }),
+						createMockBlock({ uuid: "c-2", content: "Two" }),
+					],
+				}),
+			]);
+
+			const flattened = await exporter.exportCurrentPage({
+				...exportOptions,
+				smartOutline: false,
+			});
+			expect(flattened).toBe("Parent\n\nOne\n\nTwo");
+
+			const smart = await exporter.exportCurrentPage(exportOptions);
+			expect(smart).toBe("Parent\n\n- One\n- Two");
+		});
+	});
+
+	describe("Exclusion", () => {
+		const exportOptions = {
+			...DEFAULT_OPTIONS,
+			includePageName: false,
+			includeProperties: false,
+		};
+
+		const exportBlocks = async (blocks: BlockEntity[], options = {}) => {
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Journal" }));
+			mockPageBlocksResponse(mockAPI, blocks);
+			return exporter.exportCurrentPage({ ...exportOptions, ...options });
+		};
+
+		it("should drop a block marked blogseq-exclude and its children", async () => {
+			const result = await exportBlocks([
+				createMockBlock({ uuid: "public", content: "Public" }),
+				createMockBlock({
+					uuid: "secret",
+					content: "Scratch\nblogseq-exclude:: true",
+					properties: { blogseqExclude: true },
+					children: [createMockBlock({ uuid: "secret-child", content: "Hidden detail" })],
+				}),
+			]);
+
+			expect(result).toBe("Public");
+		});
+
+		it("should drop blocks with the exclude tag", async () => {
+			const result = await exportBlocks([
+				createMockBlock({ uuid: "keep", content: "Keep this" }),
+				createMockBlock({ uuid: "tagged", content: "Idea #private" }),
+				createMockBlock({ uuid: "wiki-tagged", content: "Other #[[Private]] idea" }),
+			]);
+
+			expect(result).toBe("Keep this");
+		});
+
+		it("should use the configured exclude tag", async () => {
+			const blocks = [
+				createMockBlock({ uuid: "draft", content: "Half-baked #draft" }),
+				createMockBlock({ uuid: "private", content: "Not private any more #private" }),
+			];
+
+			const result = await exportBlocks(blocks, { excludeTag: "#draft" });
+
+			expect(result).toBe("Not private any more");
+		});
+
+		it("should not match the tag inside code or longer tags", async () => {
+			const result = await exportBlocks([
+				createMockBlock({ uuid: "code", content: "Write `#private` to hide a block" }),
+				createMockBlock({ uuid: "longer", content: "See #private-notes", properties: {} }),
+			]);
+
+			expect(result).toBe("Write `#private` to hide a block\n\nSee");
+		});
+
+		it("should drop blocks with a DB-version blogseq-exclude checkbox", async () => {
+			const result = await exportBlocks([
+				createMockBlock({ uuid: "keep", content: "Keep" }),
+				{
+					...createMockBlock({ uuid: "db-secret", content: "Secret" }),
+					":user.property/blogseq-exclude-x1y2z3": true,
+				},
+			]);
+
+			expect(result).toBe("Keep");
+		});
+
+		it("should not resolve references to excluded blocks", async () => {
+			const secretUuid = "750e8400-e29b-41d4-a716-446655440000";
+			const result = await exportBlocks([
+				createMockBlock({ uuid: "ref", content: `See ((${secretUuid}))` }),
+				createMockBlock({ uuid: secretUuid, content: "Secret password 1234 #private" }),
+			]);
+
+			expect(result).not.toContain("Secret");
+			expect(result).toBe("See [Unresolved: 750e8400...]");
+		});
+
+		it("should not resolve references to children of excluded blocks", async () => {
+			const childUuid = "750e8400-e29b-41d4-a716-446655440001";
+			const result = await exportBlocks([
+				createMockBlock({ uuid: "ref", content: `See ((${childUuid}))` }),
+				createMockBlock({
+					uuid: "secret",
+					content: "Scratch #private",
+					children: [createMockBlock({ uuid: childUuid, content: "Hidden detail" })],
+				}),
+			]);
+
+			expect(result).not.toContain("Hidden detail");
+		});
+
+		it("should not resolve references to excluded blocks on other pages", async () => {
+			const childUuid = "750e8400-e29b-41d4-a716-446655440002";
+			mockAPI.Editor.getBlock.mockImplementation(async (id: string | number) =>
+				id === childUuid
+					? createMockBlock({ uuid: childUuid, content: "Hidden detail", parent: { id: 7 } })
+					: id === 7
+						? createMockBlock({ uuid: "secret", content: "Scratch #private" })
+						: null,
+			);
+
+			const result = await exportBlocks([
+				createMockBlock({ uuid: "ref", content: `See ((${childUuid}))` }),
+			]);
+
+			expect(result).not.toContain("Hidden detail");
+		});
+
+		it("should not embed excluded pages or blocks", async () => {
+			const secretUuid = "750e8400-e29b-41d4-a716-446655440003";
+			const diary = { ...createMockPage({ name: "Diary" }), properties: { tags: ["private"] } };
+			const page = createMockPage({ name: "Journal" });
+			const blocks = [
+				createMockBlock({ uuid: "page-embed", content: "Page {{embed [[Diary]]}}" }),
+				createMockBlock({ uuid: "block-embed", content: `Block {{embed ((${secretUuid}))}}` }),
+			];
+			mockCurrentPageResponse(mockAPI, page);
+			mockAPI.Editor.getPage.mockImplementation(async (id: string | number) =>
+				id === "Diary" ? (diary as PageEntity) : page,
+			);
+			mockAPI.Editor.getPageBlocksTree.mockImplementation(async (id: string) =>
+				id === page.uuid ? blocks : [createMockBlock({ uuid: "entry", content: "Dear diary" })],
+			);
+			mockAPI.Editor.getBlock.mockImplementation(async (id: string | number) =>
+				id === secretUuid
+					? createMockBlock({ uuid: secretUuid, content: "Password #private" })
+					: null,
+			);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("Page\n\nBlock");
+		});
+
+		it("should refuse to export an excluded page", async () => {
+			const page = { ...createMockPage({ name: "Diary" }), properties: { tags: ["private"] } };
+			mockCurrentPageResponse(mockAPI, page as PageEntity);
+			mockPageBlocksResponse(mockAPI, [createMockBlock({ uuid: "entry", content: "Entry" })]);
+
+			await expect(exporter.exportCurrentPage(exportOptions)).rejects.toThrow("EXPORT_EXCLUDED");
+		});
+	});
+
+	describe("Callouts", () => {
+		const exportOptions = {
+			...DEFAULT_OPTIONS,
+			includePageName: false,
+			includeProperties: false,
+		};
+
+		it("should convert admonition blocks and clean their contents", async () => {
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Guide" }));
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({
+					uuid: "note-block",
+					content: "#+BEGIN_NOTE\nSee [[Setup]] first #draft\n#+END_NOTE",
+				}),
+			]);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("> [!NOTE]\n> See Setup first");
+		});
+
+		it("should convert admonition blocks holding inline code and URLs", async () => {
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Guide" }));
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({
+					uuid: "tip-block",
+					content: "#+BEGIN_TIP\nRun `npm install`, then open https://example.com\n#+END_TIP",
+				}),
+			]);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("> [!TIP]\n> Run `npm install`, then open https://example.com");
+		});
+
+		it("should render DB-version callout blocks with their children", async () => {
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Guide" }));
+			mockPageBlocksResponse(mockAPI, [
+				{
+					...createMockBlock({
+						uuid: "db-callout",
+						content: "Back up first",
+						children: [createMockBlock({ uuid: "db-callout-child", content: "Then upgrade" })],
+					}),
+					"logseq.property.node/display-type": ":warning",
+				},
+			]);
+
+			const result = await exporter.exportCurrentPage({
+				...exportOptions,
+				calloutFormat: "docusaurus",
+			});
+
+			expect(result).toBe(":::warning\nBack up first\n:::\n\nThen upgrade");
+		});
+
+		it("should export DB-version callouts as plain blocks in keep mode", async () => {
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Guide" }));
+			mockPageBlocksResponse(mockAPI, [
+				{
+					...createMockBlock({ uuid: "db-tip", content: "Use the shortcut" }),
+					"logseq.property.node/display-type": ":tip",
+				},
+			]);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, calloutFormat: "keep" });
+
+			expect(result).toBe("Use the shortcut");
+		});
+	});
+
+	describe("Org-format blocks", () => {
+		it("should convert org blocks and leave markdown blocks alone", async () => {
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Mixed" }));
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({
+					uuid: "org-block",
+					format: "org",
+					content: "TODO Read *the* [[Manual][manual]] and [[https://logseq.com][the site]]",
+				}),
+				createMockBlock({
+					uuid: "org-code",
+					format: "org",
+					content: "#+BEGIN_SRC sh\nls *\n#+END_SRC",
+				}),
+				createMockBlock({ uuid: "md-block", format: "markdown", content: "Keep *this* as is" }),
+			]);
+
+			const result = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				linkMode: "wikilink",
+				taskMarkers: "keep",
+			});
+
+			expect(result).toBe(
+				"TODO Read **the** [[Manual|manual]] and [the site](https://logseq.com)\n\n```sh\nls *\n```\n\nKeep *this* as is",
+			);
+		});
+	});
+
+	describe("Inline formatting", () => {
+		it("should normalize highlights, links and cloze before cleaning syntax", async () => {
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Study" }));
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({
+					uuid: "study-block",
+					content: "==Remember== {{cloze this}} from [[Course Notes][the notes]] #study",
+				}),
+			]);
+
+			const result = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				linkMode: "relative",
+			});
+
+			expect(result).toBe("<mark>Remember</mark> **this** from [the notes](course-notes.md)");
+		});
+	});
 });
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	type BlockRenderer,
+	BUILTIN_RENDERERS,
+	codeRenderer,
+	DEFAULT_OPTIONS,
+	MarkdownExporter,
+	MarkdownHelpers,
+	quoteRenderer,
+} from "../../../markdownExporter";
+import {
+	createMockBlock,
+	createMockLogseqAPI,
+	createMockPage,
+	type MockLogseqAPI,
+	mockCurrentPageResponse,
+	mockPageBlocksResponse,
+	resetAllMocks,
+	setupGlobalMocks,
+} from "../../test-utils";
+
+describe("MarkdownExporter - Block Renderer Registry", () => {
+	let exporter: MarkdownExporter;
+	let mockAPI: MockLogseqAPI;
+
+	const exportOptions = {
+		...DEFAULT_OPTIONS,
+		includePageName: false,
+		includeProperties: false,
+	};
+
+	beforeEach(() => {
+		mockAPI = createMockLogseqAPI();
+		exporter = new MarkdownExporter(mockAPI);
+		setupGlobalMocks(mockAPI);
+	});
+
+	afterEach(() => {
+		resetAllMocks(mockAPI);
+		vi.clearAllMocks();
+	});
+
+	const calloutRenderer: BlockRenderer = {
+		name: "callout",
+		priority: 500,
+		matches: (block) => block.properties?.callout === true,
+		render: async (_block, depth, { content, renderChildren }) => [
+			{ type: "html", value: `:::note\n${content}\n:::` },
+			...(await renderChildren(depth)),
+		],
+	};
+
+	describe("registry", () => {
+		it("should start with the built-in renderers ordered by priority", () => {
+			expect(exporter.getRenderers().map((r) => r.name)).toEqual([
+				"admonition",
+				"quote",
+				"code",
+				"heading",
+				"ordered-list",
+			]);
+			expect(BUILTIN_RENDERERS).toHaveLength(5);
+		});
+
+		it("should order custom renderers by priority", () => {
+			exporter.registerRenderer({ ...calloutRenderer, priority: 250 });
+			expect(exporter.getRenderers().map((r) => r.name)).toEqual([
+				"admonition",
+				"quote",
+				"callout",
+				"code",
+				"heading",
+				"ordered-list",
+			]);
+		});
+
+		it("should replace a renderer registered under the same name", () => {
+			exporter.registerRenderer({ ...codeRenderer, priority: 1000 });
+			const renderers = exporter.getRenderers();
+			expect(renderers[0].name).toBe("code");
+			expect(renderers.filter((r) => r.name === "code")).toHaveLength(1);
+		});
+
+		it("should unregister renderers by name", () => {
+			expect(exporter.unregisterRenderer("quote")).toBe(true);
+			expect(exporter.unregisterRenderer("quote")).toBe(false);
+			expect(exporter.getRenderers().map((r) => r.name)).toEqual([
+				"admonition",
+				"code",
+				"heading",
+				"ordered-list",
+			]);
+		});
+
+		it("should keep registries separate between exporter instances", () => {
+			exporter.registerRenderer(calloutRenderer);
+			const other = new MarkdownExporter(mockAPI);
+			expect(other.getRenderers().map((r) => r.name)).not.toContain("callout");
+		});
+	});
+
+	describe("processBlock dispatch", () => {
+		it("should let a custom renderer claim a block and its children", async () => {
+			const page = createMockPage({ name: "Test" });
+			const block = createMockBlock({
+				uuid: "callout-block",
+				content: "Heads up",
+				properties: { callout: true },
+				children: [createMockBlock({ uuid: "callout-child", content: "Child text" })],
+			});
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+
+			exporter.registerRenderer(calloutRenderer);
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toContain(":::note\nHeads up\n:::");
+			expect(result).toContain("Child text");
+		});
+
+		it("should pass cleaned content, depth and options to the renderer", async () => {
+			const page = createMockPage({ name: "Test" });
+			const block = createMockBlock({ uuid: "inspect-block", content: "TODO Link to [[Page]]" });
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+
+			const matches = vi.fn(() => true);
+			const render = vi.fn(async () => [MarkdownHelpers.rawParagraph("rendered")]);
+			exporter.registerRenderer({ name: "spy", priority: 999, matches, render });
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("rendered");
+			expect(render).toHaveBeenCalledWith(
+				block,
+				0,
+				expect.objectContaining({
+					content: "Link to Page",
+					options: expect.objectContaining({ flattenNested: true }),
+				}),
+			);
+		});
+
+		it("should fall through to the next renderer when matches returns false", async () => {
+			const page = createMockPage({ name: "Test" });
+			const block = {
+				...createMockBlock({ uuid: "quote-block", content: "Quoted" }),
+				"logseq.property.node/display-type": "quote",
+			};
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+
+			exporter.registerRenderer({ ...calloutRenderer, matches: () => false });
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("> Quoted");
+		});
+
+		it("should let a higher priority renderer take over a built-in block type", async () => {
+			const page = createMockPage({ name: "Test" });
+			const block = {
+				...createMockBlock({ uuid: "quote-block", content: "Quoted" }),
+				"logseq.property.node/display-type": "quote",
+			};
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+
+			exporter.registerRenderer({
+				...quoteRenderer,
+				name: "epigraph",
+				priority: quoteRenderer.priority + 1,
+				render: async (_block, _depth, { content }) => [
+					{
+						type: "paragraph",
+						children: [{ type: "emphasis", children: [{ type: "text", value: content }] }],
+					},
+				],
+			});
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("_Quoted_");
+		});
+
+		it("should fall back to default formatting when the built-ins are removed", async () => {
+			const page = createMockPage({ name: "Test" });
+			const block = {
+				...createMockBlock({ uuid: "code-block", content: "const x = 1;" }),
+				"logseq.property.node/display-type": "code",
+			};
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [block]);
+
+			exporter.unregisterRenderer("code");
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("const x = 1;");
+		});
+	});
+});
@@ -1,6 +1,11 @@
-import type { PageEntity } from "@logseq/libs/dist/LSPlugin";
+import type { BlockEntity, PageEntity } from "@logseq/libs/dist/LSPlugin";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { DEFAULT_OPTIONS, MarkdownExporter } from "../../../markdownExporter";
+import { parse } from "yaml";
+import {
+	DEFAULT_OPTIONS,
+	type FrontmatterFormat,
+	MarkdownExporter,
+} from "../../../markdownExporter";
 import {
 	createMockBlock,
 	createMockLogseqAPI,
@@ -94,7 +99,63 @@ describe("MarkdownExporter - Frontmatter Generation", () => {
 				includeProperties: true,
 			});
 
-			expect(result).toContain("slug: testpage--more");
+			expect(result).toContain("slug: testpage-more");
+		});
+
+		it("should generate Unicode slugs", async () => {
+			const page = createMockPage({ name: "東京 Café", properties: {} });
+
+			mockAPI.Editor.getPage.mockResolvedValue(page);
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, []);
+
+			const result = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: true,
+			});
+
+			expect(result).toContain("slug: 東京-cafe");
+		});
+
+		it("should let a slug property replace the generated slug", async () => {
+			const page = {
+				...createMockPage({ name: "Über uns" }),
+				":user.property/slug-abc": "about",
+			} as PageEntity;
+
+			mockAPI.Editor.getPage.mockResolvedValue(page);
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, []);
+			mockAPI.datascriptQuery.mockImplementation(async (query: string) =>
+				query.includes("[:find ?prop-key ?prop-title") ? [[":user.property/slug-abc", "slug"]] : [],
+			);
+
+			const result = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: true,
+			});
+
+			expect(result).toContain("slug: about\n");
+			expect(result).not.toContain("uber-uns");
+		});
+
+		it("should take the slug from a file-graph slug property", async () => {
+			const page = createMockPage({ name: "My Page", properties: { slug: "about" } });
+
+			mockAPI.Editor.getPage.mockResolvedValue(page);
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, []);
+
+			const result = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: true,
+			});
+
+			expect(result).toContain("slug: about\n");
+			expect(result).not.toContain("my-page");
 		});
 
 		it("should return empty string when page has no properties and no name", async () => {
@@ -175,7 +236,7 @@ describe("MarkdownExporter - Frontmatter Generation", () => {
 			});
 
 			expect(result).toContain("author: Jane Smith");
-			expect(result).toContain("date: 2024-01-15");
+			expect(result).toContain('date: "2024-01-15"');
 			expect(result).toContain("description: Test description");
 		});
 
@@ -973,7 +1034,7 @@ describe("MarkdownExporter - Frontmatter Generation", () => {
 			});
 
 			expect(result).toContain("author: John");
-			expect(result).toContain("date: 2024-01-01");
+			expect(result).toContain('date: "2024-01-01"');
 			expect(result).toContain("category: Tech");
 		});
 
@@ -1009,8 +1070,425 @@ describe("MarkdownExporter - Frontmatter Generation", () => {
 			});
 
 			expect(result).toContain("valid: Not Empty");
-			// Empty string should still be included (it's a valid YAML value)
-			expect(result).toMatch(/empty:\s*$/m);
+			// Empty string should still be included, quoted so it doesn't read back as null
+			expect(result).toMatch(/^empty: ""$/m);
+		});
+	});
+
+	describe("generateFrontmatter - Redaction", () => {
+		it("should leave redacted properties out of the frontmatter", async () => {
+			const page = {
+				uuid: "page-uuid",
+				id: 1,
+				name: "Test Page",
+				originalName: "Test Page",
+				"journal?": false,
+				":user.property/author-abc123": "Jane Smith",
+				":user.property/email-xyz789": "jane@example.com",
+			};
+
+			mockAPI.Editor.getPage.mockResolvedValue(page as PageEntity);
+			mockCurrentPageResponse(mockAPI, page as PageEntity);
+			mockPageBlocksResponse(mockAPI, []);
+
+			mockAPI.datascriptQuery.mockImplementation(async (query: string) => {
+				if (query.includes("[:find ?prop-key ?prop-title")) {
+					return [
+						[":user.property/author-abc123", "author"],
+						[":user.property/email-xyz789", "Email"],
+					];
+				}
+				return [];
+			});
+
+			const result = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: true,
+				redactProperties: ["email", "slug"],
+			});
+
+			expect(result).toContain("author: Jane Smith");
+			expect(result).toContain("title: Test Page");
+			expect(result).not.toContain("jane@example.com");
+			expect(result).not.toContain("slug:");
+		});
+	});
+
+	describe("generateFrontmatter - Formats", () => {
+		const page = {
+			uuid: "page-uuid",
+			id: 1,
+			name: "Test Page",
+			originalName: "Test Page",
+			"journal?": false,
+			":user.property/author-abc123": "Jane Smith",
+		};
+
+		beforeEach(() => {
+			mockAPI.Editor.getPage.mockResolvedValue(page as PageEntity);
+			mockCurrentPageResponse(mockAPI, page as PageEntity);
+			mockPageBlocksResponse(mockAPI, [createMockBlock({ uuid: "body", content: "Body" })]);
+			mockAPI.datascriptQuery.mockImplementation(async (query: string) =>
+				query.includes("[:find ?prop-key ?prop-title")
+					? [[":user.property/author-abc123", "author"]]
+					: [],
+			);
+		});
+
+		const exportAs = (frontmatterFormat: FrontmatterFormat) =>
+			exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: true,
+				frontmatterFormat,
+			});
+
+		it("should write TOML frontmatter", async () => {
+			expect(await exportAs("toml")).toBe(
+				'+++\ntitle = "Test Page"\nslug = "test-page"\nauthor = "Jane Smith"\n+++\n\nBody',
+			);
+		});
+
+		it("should write JSON frontmatter", async () => {
+			const result = await exportAs("json");
+			expect(result).toMatch(/^---json\n\{/);
+			expect(result).toContain('"author": "Jane Smith"');
+			expect(result).toMatch(/\n---\n\nBody$/);
+		});
+
+		it("should leave the frontmatter out for none", async () => {
+			expect(await exportAs("none")).toBe("Body");
+		});
+	});
+
+	describe("generateFrontmatter - Mapping", () => {
+		const page = {
+			uuid: "page-uuid",
+			id: 1,
+			name: "Test Page",
+			originalName: "Test Page",
+			"journal?": false,
+			":user.property/publish-date-abc": "2024-01-15",
+			":user.property/summary-def": "An introduction",
+			":user.property/wip-ghi": true,
+		};
+
+		beforeEach(() => {
+			mockAPI.Editor.getPage.mockResolvedValue(page as PageEntity);
+			mockCurrentPageResponse(mockAPI, page as PageEntity);
+			mockPageBlocksResponse(mockAPI, [createMockBlock({ uuid: "body", content: "Body" })]);
+			mockAPI.datascriptQuery.mockImplementation(async (query: string) =>
+				query.includes("[:find ?prop-key ?prop-title")
+					? [
+							[":user.property/publish-date-abc", "publish-date"],
+							[":user.property/summary-def", "summary"],
+							[":user.property/wip-ghi", "wip"],
+						]
+					: [],
+			);
+		});
+
+		it("should rename, add and order fields for a blog", async () => {
+			const result = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: true,
+				frontmatterMapping: {
+					rename: { "publish-date": "date", summary: "description", wip: "draft" },
+					drop: ["slug"],
+					static: { layout: "post" },
+					order: ["layout", "title", "date"],
+				},
+			});
+
+			expect(result).toBe(
+				'---\nlayout: post\ntitle: Test Page\ndate: "2024-01-15"\ndescription: An introduction\ndraft: true\n---\n\nBody',
+			);
+		});
+
+		it("should not let a mapping bring back a redacted property", async () => {
+			const result = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: true,
+				redactProperties: ["description"],
+				frontmatterMapping: { rename: { summary: "description" } },
+			});
+
+			expect(result).not.toContain("An introduction");
+		});
+	});
+
+	describe("generateFrontmatter - Typed Values", () => {
+		const page = {
+			uuid: "page-uuid",
+			id: 1,
+			name: "Test Page",
+			originalName: "Test Page",
+			"journal?": false,
+			":user.property/published-a": 100,
+			":user.property/updated-b": Date.UTC(2024, 0, 20, 8, 0),
+			":user.property/rating-c": 200,
+			":user.property/draft-d": "false",
+			":user.property/homepage-e": "https://example.com",
+			":user.property/series-f": 300,
+			":user.property/notes-g": "Plain text",
+		};
+
+		beforeEach(() => {
+			mockCurrentPageResponse(mockAPI, page as PageEntity);
+			mockPageBlocksResponse(mockAPI, [createMockBlock({ uuid: "body", content: "Body" })]);
+			mockAPI.Editor.getPage.mockImplementation(async (id: unknown) => {
+				if (id === 100) return { id: 100, name: "jan 15th, 2024", journalDay: 20240115 };
+				if (id === 300) return { id: 300, name: "Logseq Tips" };
+				return page;
+			});
+			mockAPI.Editor.getBlock.mockImplementation(async (id: unknown) =>
+				id === 200 ? createMockBlock({ uuid: "rating-value", content: "4.5" }) : null,
+			);
+			mockAPI.datascriptQuery.mockImplementation(async (query: string) =>
+				query.includes("[:find ?prop-key ?prop-title")
+					? [
+							[":user.property/published-a", "published", ":date", ":db.cardinality/one"],
+							[":user.property/updated-b", "updated", ":datetime", ":db.cardinality/one"],
+							[":user.property/rating-c", "rating", ":number", ":db.cardinality/one"],
+							[":user.property/draft-d", "draft", ":checkbox", ":db.cardinality/one"],
+							[":user.property/homepage-e", "homepage", ":url", ":db.cardinality/one"],
+							[":user.property/series-f", "series", ":node", ":db.cardinality/many"],
+							[":user.property/notes-g", "notes", ":default", ":db.cardinality/one"],
+						]
+					: [],
+			);
+		});
+
+		it("should write typed YAML values from the property schemas", async () => {
+			const result = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: true,
+			});
+			const data = parse(result.split("---\n")[1]);
+
+			expect(data).toMatchObject({
+				published: "2024-01-15",
+				updated: "2024-01-20T08:00:00.000Z",
+				rating: 4.5,
+				draft: false,
+				homepage: "https://example.com",
+				series: ["Logseq Tips"],
+				notes: "Plain text",
+			});
+			expect(result).toContain("published: 2024-01-15\n");
+			expect(result).toContain("updated: 2024-01-20T08:00:00.000Z\n");
+		});
+
+		it("should fall back to the page name for a date that isn't a journal", async () => {
+			mockAPI.Editor.getPage.mockImplementation(async (id: unknown) =>
+				id === 100 ? { id: 100, name: "Someday" } : page,
+			);
+			const result = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: true,
+			});
+
+			expect(result).toContain("published: Someday\n");
+		});
+	});
+
+	describe("generateFrontmatter - Derived Dates", () => {
+		const exportWith = (page: Record<string, unknown>, blocks: unknown[], options = {}) => {
+			mockAPI.Editor.getPage.mockResolvedValue(page as PageEntity);
+			mockCurrentPageResponse(mockAPI, page as PageEntity);
+			mockPageBlocksResponse(mockAPI, blocks as BlockEntity[]);
+			return exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: true,
+				deriveDates: true,
+				dateTimezone: "UTC",
+				...options,
+			});
+		};
+
+		const journal = {
+			uuid: "journal-uuid",
+			id: 1,
+			name: "jan 15th, 2024",
+			originalName: "Jan 15th, 2024",
+			"journal?": true,
+			journalDay: 20240115,
+			createdAt: Date.UTC(2024, 0, 14, 20),
+			updatedAt: Date.UTC(2024, 0, 15, 9),
+		};
+		const blocks = [
+			createMockBlock({
+				uuid: "parent",
+				content: "Parent",
+				updatedAt: Date.UTC(2024, 0, 16, 10),
+				children: [
+					createMockBlock({
+						uuid: "child",
+						content: "Child",
+						updatedAt: Date.UTC(2024, 1, 2, 22, 15),
+					}),
+				],
+			} as Partial<BlockEntity>),
+		];
+
+		it("should date journals by their day and lastmod by the newest block", async () => {
+			const result = await exportWith(journal, blocks);
+
+			expect(result).toContain("date: 2024-01-15\n");
+			expect(result).toContain("lastmod: 2024-02-02\n");
+		});
+
+		it("should write TOML dates for derived dates only", async () => {
+			const result = await exportWith(journal, blocks, { frontmatterFormat: "toml" });
+
+			expect(result).toContain('title = "jan 15th, 2024"\n');
+			expect(result).toContain("date = 2024-01-15\n");
+			expect(result).toContain("lastmod = 2024-02-02\n");
+		});
+
+		it("should date other pages by when they were created", async () => {
+			const page = { ...journal, "journal?": false, journalDay: undefined, name: "Post" };
+			const result = await exportWith(page, []);
+
+			expect(result).toContain("date: 2024-01-14\n");
+			expect(result).toContain("lastmod: 2024-01-15\n");
+		});
+
+		it("should apply the time zone and format", async () => {
+			const result = await exportWith(journal, blocks, {
+				dateTimezone: "Asia/Tokyo",
+				dateFormat: "YYYY-MM-DDTHH:mm:ssZ",
+			});
+
+			expect(result).toContain("date: 2024-01-15T00:00:00+09:00\n");
+			expect(result).toContain("lastmod: 2024-02-03T07:15:00+09:00\n");
+		});
+
+		it("should fall back to the system zone for an unknown time zone", async () => {
+			const result = await exportWith(journal, blocks, { dateTimezone: "Mars/Olympus" });
+
+			expect(result).toMatch(/^---\n/);
+			expect(result).toContain("date: 2024-01-15\n");
+			expect(result).toContain("lastmod: 2024-02-0");
+		});
+
+		it("should keep dates set by properties", async () => {
+			mockAPI.datascriptQuery.mockImplementation(async (query: string) =>
+				query.includes("[:find ?prop-key ?prop-title") ? [[":user.property/date-a", "date"]] : [],
+			);
+			const result = await exportWith({ ...journal, ":user.property/date-a": "2023-12-31" }, []);
+
+			expect(result).toContain('date: "2023-12-31"\n');
+			expect(result).not.toContain("date: 2024-01-15");
+		});
+
+		it("should leave dates out unless enabled", async () => {
+			const result = await exportWith(journal, blocks, { deriveDates: false });
+
+			expect(result).not.toContain("date:");
+			expect(result).not.toContain("lastmod:");
+		});
+	});
+
+	describe("generateFrontmatter - Namespace Paths", () => {
+		const exportPage = (name: string, pathStrategy: "flat" | "namespace") => {
+			const page = createMockPage({ name, properties: {} });
+			mockAPI.Editor.getPage.mockResolvedValue(page);
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, []);
+			return exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: true,
+				pathStrategy,
+			});
+		};
+
+		it("should write a nested slug with parent and breadcrumbs", async () => {
+			const result = await exportPage("Docs/Guides/Getting Started", "namespace");
+
+			expect(parse(result.split(/^---$/m)[1])).toEqual({
+				title: "Docs/Guides/Getting Started",
+				slug: "docs/guides/getting-started",
+				parent: "Docs/Guides",
+				breadcrumbs: ["Docs", "Docs/Guides"],
+			});
+		});
+
+		it("should leave out parent for top-level pages", async () => {
+			const result = await exportPage("Docs", "namespace");
+
+			expect(result).toContain("slug: docs\n");
+			expect(result).not.toContain("parent:");
+			expect(result).not.toContain("breadcrumbs:");
+		});
+
+		it("should flatten the slug by default", async () => {
+			const result = await exportPage("Docs/Guides", "flat");
+
+			expect(result).toContain("slug: docs-guides\n");
+			expect(result).not.toContain("parent:");
+		});
+	});
+
+	describe("generateFrontmatter - Aliases", () => {
+		const exportPage = (page: Record<string, unknown>, options = {}) => {
+			mockCurrentPageResponse(mockAPI, page as PageEntity);
+			mockPageBlocksResponse(mockAPI, []);
+			mockAPI.Editor.getPage.mockImplementation(async (id: unknown) => {
+				if (id === 10) return { id: 10, name: "old name", originalName: "Old Name" };
+				if (id === 11) return { id: 11, name: "legacy" };
+				return typeof id === "number" ? null : page;
+			});
+			return exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: true,
+				...options,
+			});
+		};
+
+		it("should list DB-version aliases by name", async () => {
+			const result = await exportPage({
+				...createMockPage({ name: "New Name" }),
+				":logseq.property/alias": [{ "db/id": 10 }, 11, 99],
+			});
+
+			expect(parse(result.split(/^---$/m)[1])).toMatchObject({
+				aliases: ["Old Name", "legacy"],
+			});
+		});
+
+		it("should read file-graph alias properties", async () => {
+			const result = await exportPage(
+				createMockPage({ name: "New Name", properties: { alias: "[[Old Name]], Legacy" } }),
+			);
+
+			expect(result).toContain("aliases:\n  - Old Name\n  - Legacy\n");
+		});
+
+		it("should add redirect_from for Jekyll", async () => {
+			const result = await exportPage(
+				createMockPage({ name: "New Name", properties: { alias: ["Old Name", "Legacy"] } }),
+				{ aliasRedirects: "jekyll" },
+			);
+
+			expect(result).toContain("redirect_from:\n  - /old-name/\n  - /legacy/\n");
+		});
+
+		it("should leave aliases out when there are none", async () => {
+			const result = await exportPage(createMockPage({ name: "New Name" }), {
+				aliasRedirects: "jekyll",
+			});
+
+			expect(result).not.toContain("aliases:");
+			expect(result).not.toContain("redirect_from:");
 		});
 	});
 });
@@ -510,7 +510,7 @@ describe("MarkdownExporter", () => {
 
 			expect(result).toContain("---");
 			expect(result).toContain("title: My Article");
-			expect(result).toContain("date: 2024-01-15");
+			expect(result).toContain('date: "2024-01-15"');
 			expect(result).toContain("author: John Doe");
 		});
 
@@ -838,6 +838,22 @@ describe("MarkdownExporter", () => {
 			expect(mockDOMHelpers.removeChild).toHaveBeenCalledWith(mockLink);
 		});
 
+		it("should name the downloaded file after the page slug", async () => {
+			const mockLink = {
+				href: "",
+				download: "",
+				style: { display: "" },
+				click: vi.fn(),
+			};
+
+			mockDOMHelpers.createElement.mockReturnValue(mockLink);
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Café Notes" }));
+
+			await exporter.downloadMarkdown("# Content");
+
+			expect(mockLink.download).toBe("cafe-notes.md");
+		});
+
 		it("should export as ZIP with assets", async () => {
 			const mockZipFile = vi.fn();
 			const mockAssetsFile = vi.fn();
@@ -879,4 +879,332 @@ describe("MarkdownExporter - Reference Resolution", () => {
 			expect(blockCallCount).toBeGreaterThan(0);
 		});
 	});
+
+	describe("Page Link Modes", () => {
+		const pageRefUuid = "12345678-1234-1234-1234-123456789abc";
+
+		const exportWithLinks = async (content: string, options = {}) => {
+			const page = createMockPage({ name: "Test" });
+			mockAPI.Editor.getPage.mockImplementation((uuid: string) =>
+				Promise.resolve(
+					uuid === pageRefUuid
+						? ({ uuid: pageRefUuid, name: "Referenced Page" } as PageEntity)
+						: null,
+				),
+			);
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [createMockBlock({ uuid: "block-1", content })]);
+
+			return exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				includeProperties: false,
+				...options,
+			});
+		};
+
+		it("should render [[Page]] as plain text by default", async () => {
+			expect(await exportWithLinks("See [[My Notes]]")).toBe("See My Notes");
+		});
+
+		it("should render relative markdown links", async () => {
+			const result = await exportWithLinks("See [[My Notes]]", { linkMode: "relative" });
+			expect(result).toBe("See [My Notes](my-notes.md)");
+		});
+
+		it("should preserve wiki links", async () => {
+			const result = await exportWithLinks("See [[My Notes]]", { linkMode: "wikilink" });
+			expect(result).toBe("See [[My Notes]]");
+		});
+
+		it("should fill in the URL template", async () => {
+			const result = await exportWithLinks("See [[My Notes]]", {
+				linkMode: "template",
+				linkTemplate: "/notes/{slug}/",
+			});
+			expect(result).toBe("See [My Notes](/notes/my-notes/)");
+		});
+
+		it("should link [[uuid]] page refs to the resolved page", async () => {
+			const result = await exportWithLinks(`Link to [[${pageRefUuid}]]`, { linkMode: "relative" });
+			expect(result).toBe("Link to [Referenced Page](referenced-page.md)");
+		});
+
+		it("should link to pages by their slug property", async () => {
+			const page = createMockPage({ name: "Test" });
+			const about = createMockPage({
+				uuid: pageRefUuid,
+				name: "my page",
+				properties: { slug: "about" },
+			});
+			mockAPI.Editor.getPage.mockImplementation((id: string) =>
+				Promise.resolve(id === pageRefUuid || id.toLowerCase() === "my page" ? about : null),
+			);
+			mockCurrentPageResponse(mockAPI, page);
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({ uuid: "block-1", content: `See [[My Page]] and [[${pageRefUuid}]]` }),
+			]);
+
+			const relative = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				linkMode: "relative",
+			});
+			const template = await exporter.exportCurrentPage({
+				...DEFAULT_OPTIONS,
+				includePageName: false,
+				linkMode: "template",
+			});
+
+			expect(relative).toBe("See [My Page](about.md) and [my page](about.md)");
+			expect(template).toBe("See [My Page](/about/) and [my page](/about/)");
+		});
+
+		it("should keep plain UUIDs that resolve to pages as text", async () => {
+			const result = await exportWithLinks(`Page id ${pageRefUuid}`, { linkMode: "relative" });
+			expect(result).toBe("Page id Referenced Page");
+		});
+	});
+
+	describe("Block Reference Modes", () => {
+		const sourceUuid = "550e8400-e29b-41d4-a716-446655440500";
+		const targetUuid = "550e8400-e29b-41d4-a716-446655440501";
+
+		const exportOptions = {
+			...DEFAULT_OPTIONS,
+			includePageName: false,
+			includeProperties: false,
+		};
+
+		const mockExternalBlock = () => {
+			mockAPI.Editor.getBlock.mockImplementation((uuid: string) =>
+				Promise.resolve(
+					uuid === sourceUuid
+						? ({
+								uuid: sourceUuid,
+								content: "Knowledge is **power**",
+								page: { id: 7 },
+							} as BlockEntity)
+						: null,
+				),
+			);
+			mockAPI.Editor.getPage.mockImplementation((id: string | number) =>
+				Promise.resolve(id === 7 ? ({ id: 7, name: "Bacon" } as PageEntity) : null),
+			);
+		};
+
+		it("should inline the referenced content by default", async () => {
+			mockExternalBlock();
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Test" }));
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({ uuid: "block-1", content: `As written: ((${sourceUuid}))` }),
+			]);
+
+			const result = await exporter.exportCurrentPage(exportOptions);
+
+			expect(result).toBe("As written: Knowledge is **power**");
+		});
+
+		it("should cite the referenced block in a footnote", async () => {
+			mockExternalBlock();
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Test" }));
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({ uuid: "block-1", content: `As written ((${sourceUuid}))` }),
+				createMockBlock({ uuid: "block-2", content: `Again ((${sourceUuid}))` }),
+			]);
+
+			const result = await exporter.exportCurrentPage({
+				...exportOptions,
+				blockRefMode: "footnote",
+			});
+
+			expect(result).toBe(
+				"As written [^1]\n\nAgain [^1]\n\n[^1]: “Knowledge is **power**” — Bacon",
+			);
+		});
+
+		it("should number footnotes by document order when references resolve out of order", async () => {
+			const otherUuid = "550e8400-e29b-41d4-a716-446655440502";
+			const delays: Record<string, number> = { [sourceUuid]: 20, [otherUuid]: 0 };
+			mockAPI.Editor.getBlock.mockImplementation(
+				(uuid: string) =>
+					new Promise((resolve) =>
+						setTimeout(
+							() =>
+								resolve(
+									uuid in delays
+										? ({
+												uuid,
+												content: uuid === sourceUuid ? "First" : "Second",
+												page: { id: 7 },
+											} as BlockEntity)
+										: null,
+								),
+							delays[uuid] ?? 0,
+						),
+					),
+			);
+			mockAPI.Editor.getPage.mockImplementation((id: string | number) =>
+				Promise.resolve(id === 7 ? ({ id: 7, name: "Bacon" } as PageEntity) : null),
+			);
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Test" }));
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({ uuid: "block-1", content: `See ((${sourceUuid}))` }),
+				createMockBlock({ uuid: "block-2", content: `Also ((${otherUuid})) ((${otherUuid}))` }),
+				createMockBlock({ uuid: "block-3", content: `And ((${sourceUuid}))` }),
+			]);
+
+			const result = await exporter.exportCurrentPage({
+				...exportOptions,
+				blockRefMode: "footnote",
+			});
+
+			expect(result).toBe(
+				"See [^1]\n\nAlso [^2] [^2]\n\nAnd [^1]\n\n[^1]: “First” — Bacon\n\n[^2]: “Second” — Bacon",
+			);
+		});
+
+		it("should format the footnote source with the link mode", async () => {
+			mockExternalBlock();
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Test" }));
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({ uuid: "block-1", content: `Quote ((${sourceUuid}))` }),
+			]);
+
+			const result = await exporter.exportCurrentPage({
+				...exportOptions,
+				blockRefMode: "footnote",
+				linkMode: "wikilink",
+			});
+
+			expect(result).toContain("[^1]: “Knowledge is **power**” — [[Bacon]]");
+		});
+
+		it("should link to an anchor on a block in the same export", async () => {
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Test" }));
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({ uuid: targetUuid, content: "TODO Define [[terms]]" }),
+				createMockBlock({ uuid: "block-2", content: `See ((${targetUuid}))` }),
+			]);
+
+			const result = await exporter.exportCurrentPage({
+				...exportOptions,
+				blockRefMode: "anchor",
+			});
+
+			expect(result).toBe(
+				`<a id="block-${targetUuid}"></a>Define terms\n\nSee [Define terms](#block-${targetUuid})`,
+			);
+		});
+
+		it("should fall back to inline content for anchors to other pages", async () => {
+			mockExternalBlock();
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Test" }));
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({ uuid: "block-1", content: `Quote ((${sourceUuid}))` }),
+			]);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, blockRefMode: "anchor" });
+
+			expect(result).toBe("Quote Knowledge is **power**");
+		});
+
+		it("should not link to a code block, which gets no anchor", async () => {
+			const codeBlock = createMockBlock({
+				uuid: targetUuid,
+				content: "let x = 1",
+				":logseq.property.node/display-type": ":code",
+			} as Partial<BlockEntity>);
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Test" }));
+			mockPageBlocksResponse(mockAPI, [
+				createMockBlock({ uuid: "block-1", content: `See ((${targetUuid}))` }),
+				codeBlock,
+			]);
+
+			const result = await exporter.exportCurrentPage({ ...exportOptions, blockRefMode: "anchor" });
+
+			expect(result).toBe("See let x = 1\n\n```\nlet x = 1\n```");
+		});
+	});
+
+	describe("resolveReferences - Context-aware Plain UUIDs", () => {
+		const uuid = "6a1f0c2e-3b4d-4e5f-8a9b-0c1d2e3f4a5b";
+		const exportOptions = {
+			...DEFAULT_OPTIONS,
+			includePageName: false,
+			includeProperties: false,
+			resolvePlainUuids: true,
+		};
+
+		const exportContent = async (content: string) => {
+			mockCurrentPageResponse(mockAPI, createMockPage({ name: "Test" }));
+			mockPageBlocksResponse(mockAPI, [createMockBlock({ uuid: "block-1", content })]);
+			return exporter.exportCurrentPage(exportOptions);
+		};
+
+		beforeEach(() => {
+			mockAPI.Editor.getBlock.mockImplementation(async (id: string | number) =>
+				id === uuid ? ({ uuid, content: "Resolved block", properties: {} } as BlockEntity) : null,
+			);
+		});
+
+		it("should resolve a UUID in prose and record the substitution", async () => {
+			const result = await exportContent(`Details in ${uuid}.`);
+
+			expect(result).toBe("Details in Resolved block.");
+			expect(exporter.getUuidSubstitutions()).toEqual([
+				{ uuid, kind: "block", replacement: "Resolved block" },
+			]);
+		});
+
+		it("should leave UUIDs in code spans and fenced code alone", async () => {
+			const result = await exportContent(`Run \`get ${uuid}\`\n\`\`\`\nid = "${uuid}"\n\`\`\``);
+
+			expect(result).not.toContain("Resolved block");
+			expect(exporter.getUuidSubstitutions()).toEqual([]);
+		});
+
+		it("should leave UUIDs in URLs, query strings and link destinations alone", async () => {
+			const result = await exportContent(
+				`https://example.com/items?id=${uuid} and [item](https://example.com/${uuid}) and example.com?ref=${uuid}#${uuid}`,
+			);
+
+			expect(result).not.toContain("Resolved block");
+		});
+
+		it("should leave UUIDs that are part of a file name alone", async () => {
+			const result = await exportContent(`Saved as ${uuid}.json`);
+
+			expect(result).toBe(`Saved as ${uuid}.json`);
+		});
+
+		it("should not substitute an entity that doesn't carry the UUID", async () => {
+			const other = "0b1c2d3e-4f5a-4b6c-9d7e-8f9a0b1c2d3e";
+			mockAPI.Editor.getPage.mockResolvedValue(createMockPage({ name: "Some Page" }));
+			mockAPI.Editor.getBlock.mockResolvedValue({
+				uuid: uuid,
+				content: "Wrong block",
+				properties: {},
+			} as BlockEntity);
+
+			const result = await exportContent(`Request ${other} failed`);
+
+			expect(result).toBe(`Request ${other} failed`);
+			expect(exporter.getUuidSubstitutions()).toEqual([]);
+		});
+
+		it("should record page substitutions and reset them between exports", async () => {
+			mockAPI.Editor.getPage.mockImplementation(async (id: string | number) =>
+				id === uuid ? ({ uuid, name: "Roadmap" } as PageEntity) : null,
+			);
+
+			expect(await exportContent(`See ${uuid}`)).toBe("See Roadmap");
+			expect(exporter.getUuidSubstitutions()).toEqual([
+				{ uuid, kind: "page", replacement: "Roadmap" },
+			]);
+
+			await exportContent("No references");
+			expect(exporter.getUuidSubstitutions()).toEqual([]);
+		});
+	});
 });
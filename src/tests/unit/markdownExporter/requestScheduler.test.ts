@@ -0,0 +1,151 @@
+import type { PageEntity } from "@logseq/libs/dist/LSPlugin";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	DEFAULT_OPTIONS,
+	MarkdownExporter,
+	RequestScheduler,
+	scheduleLogseqAPI,
+} from "../../../markdownExporter";
+import {
+	createMockBlock,
+	createMockLogseqAPI,
+	createMockPage,
+	type MockLogseqAPI,
+	mockCurrentPageResponse,
+	mockPageBlocksResponse,
+	resetAllMocks,
+	setupGlobalMocks,
+} from "../../test-utils";
+
+// A request that stays pending until resolve is called
+const deferred = <T>() => {
+	let resolve!: (value: T) => void;
+	let reject!: (error: Error) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+};
+
+describe("RequestScheduler", () => {
+	it("should run at most `limit` requests at once", async () => {
+		const scheduler = new RequestScheduler(2);
+		const requests = [deferred<number>(), deferred<number>(), deferred<number>()];
+		const started = vi.fn();
+
+		const results = requests.map((request, i) =>
+			scheduler.run(null, () => {
+				started(i);
+				return request.promise;
+			}),
+		);
+		await Promise.resolve();
+
+		expect(started).toHaveBeenCalledTimes(2);
+		expect(scheduler.activeCount).toBe(2);
+
+		requests[0].resolve(0);
+		await results[0];
+		await Promise.resolve();
+
+		expect(started).toHaveBeenCalledTimes(3);
+		expect(scheduler.activeCount).toBe(2);
+
+		requests[1].resolve(1);
+		requests[2].resolve(2);
+		await expect(Promise.all(results)).resolves.toEqual([0, 1, 2]);
+		expect(scheduler.activeCount).toBe(0);
+	});
+
+	it("should share one in-flight request between callers with the same key", async () => {
+		const scheduler = new RequestScheduler();
+		const request = vi.fn(async () => "page");
+
+		const results = await Promise.all([
+			scheduler.run("getPage:abc", request),
+			scheduler.run("getPage:abc", request),
+			scheduler.run("getPage:def", request),
+		]);
+
+		expect(results).toEqual(["page", "page", "page"]);
+		expect(request).toHaveBeenCalledTimes(2);
+	});
+
+	it("should issue a new request once the previous one has settled", async () => {
+		const scheduler = new RequestScheduler();
+		const request = vi.fn(async () => "page");
+
+		await scheduler.run("getPage:abc", request);
+		await scheduler.run("getPage:abc", request);
+
+		expect(request).toHaveBeenCalledTimes(2);
+	});
+
+	it("should pass failures to every caller and free the slot", async () => {
+		const scheduler = new RequestScheduler(1);
+		const failing = deferred<string>();
+
+		const first = scheduler.run("getBlock:abc", () => failing.promise);
+		const second = scheduler.run("getBlock:abc", () => Promise.resolve("unused"));
+		const next = scheduler.run("getBlock:def", async () => "next");
+		failing.reject(new Error("lookup failed"));
+
+		await expect(first).rejects.toThrow("lookup failed");
+		await expect(second).rejects.toThrow("lookup failed");
+		await expect(next).resolves.toBe("next");
+		expect(scheduler.activeCount).toBe(0);
+	});
+});
+
+describe("scheduleLogseqAPI", () => {
+	let mockAPI: MockLogseqAPI;
+
+	beforeEach(() => {
+		mockAPI = createMockLogseqAPI();
+		setupGlobalMocks(mockAPI);
+	});
+
+	afterEach(() => {
+		resetAllMocks(mockAPI);
+		vi.clearAllMocks();
+	});
+
+	it("should key requests by method and id", async () => {
+		const api = scheduleLogseqAPI(mockAPI, new RequestScheduler());
+		mockAPI.Editor.getBlock.mockResolvedValue(null);
+
+		await Promise.all([
+			api.getBlock("abc", { includeChildren: false }),
+			api.getBlock("abc", { includeChildren: false }),
+			api.getBlock("abc", { includeChildren: true }),
+			api.getPage("abc"),
+		]);
+
+		expect(mockAPI.Editor.getBlock).toHaveBeenCalledTimes(2);
+		expect(mockAPI.Editor.getPage).toHaveBeenCalledTimes(1);
+	});
+
+	it("should look up a UUID referenced by several blocks once during an export", async () => {
+		const uuid = "7b2c4d6e-8f0a-4b1c-9d2e-3f4a5b6c7d8e";
+		const exporter = new MarkdownExporter(mockAPI);
+		mockAPI.Editor.getPage.mockImplementation(async (id: string | number) =>
+			id === uuid ? ({ uuid, name: "Shared Page" } as PageEntity) : null,
+		);
+		mockCurrentPageResponse(mockAPI, createMockPage({ name: "Test" }));
+		mockPageBlocksResponse(mockAPI, [
+			createMockBlock({
+				uuid: "parent",
+				content: "Parent",
+				children: ["a", "b", "c"].map((id) =>
+					createMockBlock({ uuid: `child-${id}`, content: `See [[${uuid}]]` }),
+				),
+			}),
+		]);
+
+		const result = await exporter.exportCurrentPage({ ...DEFAULT_OPTIONS, includePageName: false });
+
+		expect(result).toContain("See Shared Page");
+		expect(mockAPI.Editor.getPage.mock.calls.filter(([id]) => id === uuid)).toHaveLength(1);
+	});
+});
@@ -102,6 +102,210 @@ describe("Export Settings", () => {
 			expect(settings.assetPath).toBe("assets/"); // Default
 		});
 
+		it("should retrieve the task marker mode", () => {
+			(global as any).logseq.settings = { taskMarkers: "gfm" };
+
+			expect(getExportSettings().taskMarkers).toBe("gfm");
+		});
+
+		it("should fall back to stripping task markers for unknown modes", () => {
+			(global as any).logseq.settings = { taskMarkers: "checkbox" };
+
+			expect(getExportSettings().taskMarkers).toBe("strip");
+		});
+
+		it("should retrieve task metadata settings", () => {
+			(global as any).logseq.settings = { taskMetadata: "badges", taskMetadataFrontmatter: true };
+
+			const settings = getExportSettings();
+
+			expect(settings.taskMetadata).toBe("badges");
+			expect(settings.taskMetadataFrontmatter).toBe(true);
+		});
+
+		it("should fall back to stripping task metadata for unknown modes", () => {
+			(global as any).logseq.settings = { taskMetadata: "inline" };
+
+			const settings = getExportSettings();
+
+			expect(settings.taskMetadata).toBe("strip");
+			expect(settings.taskMetadataFrontmatter).toBe(false);
+		});
+
+		it("should retrieve link settings", () => {
+			(global as any).logseq.settings = { linkMode: "template", linkTemplate: "/notes/{slug}/" };
+
+			const settings = getExportSettings();
+
+			expect(settings.linkMode).toBe("template");
+			expect(settings.linkTemplate).toBe("/notes/{slug}/");
+		});
+
+		it("should fall back to plain links and the default template", () => {
+			(global as any).logseq.settings = { linkMode: "html", linkTemplate: "  " };
+
+			const settings = getExportSettings();
+
+			expect(settings.linkMode).toBe("plain");
+			expect(settings.linkTemplate).toBe("/{slug}/");
+		});
+
+		it("should retrieve the block reference mode", () => {
+			(global as any).logseq.settings = { blockRefMode: "footnote" };
+
+			expect(getExportSettings().blockRefMode).toBe("footnote");
+		});
+
+		it("should fall back to inline block references for unknown modes", () => {
+			(global as any).logseq.settings = { blockRefMode: "embed" };
+
+			expect(getExportSettings().blockRefMode).toBe("inline");
+		});
+
+		it("should retrieve the maximum embed depth", () => {
+			(global as any).logseq.settings = { maxEmbedDepth: 0 };
+
+			expect(getExportSettings().maxEmbedDepth).toBe(0);
+		});
+
+		it("should fall back to the default embed depth for invalid values", () => {
+			(global as any).logseq.settings = { maxEmbedDepth: -1 };
+
+			expect(getExportSettings().maxEmbedDepth).toBe(3);
+		});
+
+		it("should retrieve the query result mode", () => {
+			(global as any).logseq.settings = { queryResults: "table" };
+
+			expect(getExportSettings().queryResults).toBe("table");
+		});
+
+		it("should fall back to stripping queries for unknown modes", () => {
+			(global as any).logseq.settings = { queryResults: "csv" };
+
+			expect(getExportSettings().queryResults).toBe("strip");
+		});
+
+		it("should retrieve the smart outline setting", () => {
+			(global as any).logseq.settings = { smartOutline: true };
+
+			expect(getExportSettings().smartOutline).toBe(true);
+		});
+
+		it("should retrieve the callout format and fall back to GitHub alerts", () => {
+			(global as any).logseq.settings = { calloutFormat: "obsidian" };
+			expect(getExportSettings().calloutFormat).toBe("obsidian");
+
+			(global as any).logseq.settings = { calloutFormat: "mkdocs" };
+			expect(getExportSettings().calloutFormat).toBe("github");
+		});
+
+		it("should retrieve inline formatting strategies per construct", () => {
+			(global as any).logseq.settings = {
+				highlightFormat: "markdown",
+				orgLinkFormat: "html",
+				hiccupFormat: "keep",
+				clozeFormat: "invalid",
+			};
+
+			expect(getExportSettings().inlineFormatting).toEqual({
+				highlight: "markdown",
+				orgLink: "html",
+				hiccup: "keep",
+				cloze: "markdown",
+			});
+		});
+
+		it("should retrieve the frontmatter format and fall back to YAML", () => {
+			(global as any).logseq.settings = { frontmatterFormat: "toml" };
+			expect(getExportSettings().frontmatterFormat).toBe("toml");
+
+			(global as any).logseq.settings = { frontmatterFormat: "xml" };
+			expect(getExportSettings().frontmatterFormat).toBe("yaml");
+		});
+
+		it("should parse the frontmatter mapping JSON", () => {
+			(global as any).logseq.settings = {
+				frontmatterMapping:
+					'{"rename": {"wip": "draft", "bad": 1}, "drop": ["slug"], "static": {"layout": "post"}, "order": "title"}',
+			};
+
+			expect(getExportSettings().frontmatterMapping).toEqual({
+				rename: { wip: "draft" },
+				drop: ["slug"],
+				static: { layout: "post" },
+			});
+		});
+
+		it("should ignore an invalid frontmatter mapping", () => {
+			(global as any).logseq.settings = { frontmatterMapping: "{rename: " };
+			expect(getExportSettings().frontmatterMapping).toEqual({});
+
+			(global as any).logseq.settings = { frontmatterMapping: "[]" };
+			expect(getExportSettings().frontmatterMapping).toEqual({});
+		});
+
+		it("should retrieve the derived date settings", () => {
+			(global as any).logseq.settings = {
+				deriveDates: true,
+				dateTimezone: " Europe/Berlin ",
+				dateFormat: "YYYY-MM-DDTHH:mmZ",
+			};
+
+			expect(getExportSettings()).toMatchObject({
+				deriveDates: true,
+				dateTimezone: "Europe/Berlin",
+				dateFormat: "YYYY-MM-DDTHH:mmZ",
+			});
+		});
+
+		it("should fall back to the system time zone and ISO dates", () => {
+			(global as any).logseq.settings = { dateTimezone: "Mars/Olympus", dateFormat: "  " };
+
+			expect(getExportSettings()).toMatchObject({
+				deriveDates: false,
+				dateTimezone: "",
+				dateFormat: "YYYY-MM-DD",
+			});
+		});
+
+		it("should retrieve the path strategy and fall back to flat", () => {
+			(global as any).logseq.settings = { pathStrategy: "namespace" };
+			expect(getExportSettings().pathStrategy).toBe("namespace");
+
+			(global as any).logseq.settings = { pathStrategy: "nested" };
+			expect(getExportSettings().pathStrategy).toBe("flat");
+		});
+
+		it("should retrieve the alias redirect mode and fall back to none", () => {
+			(global as any).logseq.settings = { aliasRedirects: "html" };
+			expect(getExportSettings().aliasRedirects).toBe("html");
+
+			(global as any).logseq.settings = { aliasRedirects: "netlify" };
+			expect(getExportSettings().aliasRedirects).toBe("none");
+		});
+
+		it("should retrieve exclusion and redaction settings", () => {
+			(global as any).logseq.settings = {
+				excludeTag: "draft",
+				redactProperties: " email, phone ,,",
+			};
+
+			const settings = getExportSettings();
+
+			expect(settings.excludeTag).toBe("draft");
+			expect(settings.redactProperties).toEqual(["email", "phone"]);
+		});
+
+		it("should default to the private tag and no redactions", () => {
+			(global as any).logseq.settings = {};
+
+			const settings = getExportSettings();
+
+			expect(settings.excludeTag).toBe("private");
+			expect(settings.redactProperties).toEqual([]);
+		});
+
 		it("should return all required settings properties", () => {
 			const settings = getExportSettings();
 
@@ -1,3 +1,17 @@
+import type {
+	AliasRedirectMode,
+	BlockRefMode,
+	CalloutFormat,
+	FrontmatterFormat,
+	FrontmatterMapping,
+	InlineFormatting,
+	LinkMode,
+	PathStrategy,
+	QueryResultMode,
+	TaskMarkerMode,
+	TaskMetadataMode,
+} from "../markdownExporter";
+
 // Core types
 export type PreviewMode = "raw" | "rendered";
 
@@ -14,6 +28,27 @@ export type ExportSettings = {
 	includePageName: boolean;
 	assetPath: string;
 	debug: boolean;
+	// Output options chosen in the plugin settings; unset means the exporter default
+	smartOutline?: boolean;
+	taskMarkers?: TaskMarkerMode;
+	taskMetadata?: TaskMetadataMode;
+	taskMetadataFrontmatter?: boolean;
+	linkMode?: LinkMode;
+	linkTemplate?: string;
+	blockRefMode?: BlockRefMode;
+	maxEmbedDepth?: number;
+	queryResults?: QueryResultMode;
+	calloutFormat?: CalloutFormat;
+	inlineFormatting?: InlineFormatting;
+	excludeTag?: string;
+	redactProperties?: string[];
+	frontmatterFormat?: FrontmatterFormat;
+	frontmatterMapping?: FrontmatterMapping;
+	deriveDates?: boolean;
+	dateTimezone?: string;
+	dateFormat?: string;
+	pathStrategy?: PathStrategy;
+	aliasRedirects?: AliasRedirectMode;
 };
 
 export type SettingOption = {